@@ -5,7 +5,7 @@ const denoJson = JSON.parse(Deno.readTextFileSync("./deno.json"));
 await emptyDir("./npm");
 
 await build({
-  entryPoints: ["./mod.ts"],
+  entryPoints: ["./mod.ts", { name: "./testing", path: "./testing.ts" }],
   outDir: "./npm",
   shims: {},
   test: false,
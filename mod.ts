@@ -34,20 +34,98 @@
 
 export { OAuthClient } from "./src/client.ts";
 export { Session, type SessionData } from "./src/session.ts";
-export { LocalStorage, MemoryStorage, SQLiteStorage, type Storage } from "./src/storage.ts";
+export {
+  migrateSessionData,
+  SESSION_DATA_VERSION,
+  type SessionDataMigrationResult,
+  validateSessionData,
+} from "./src/session-schema.ts";
+export {
+  DenoKvStorage,
+  type DenoKvStorageOptions,
+  type KvAtomicOperation,
+  type KvLike,
+  LocalStorage,
+  MemoryStorage,
+  NamespacedStorage,
+  SQLiteStorage,
+  type Storage,
+} from "./src/storage.ts";
+export {
+  type AccountAction,
+  type AccountAttribute,
+  formatScopePermission,
+  type IdentityAttribute,
+  parseScope,
+  parseScopePermission,
+  type RepoAction,
+  scopeAllows,
+  ScopeBuilder,
+  type ScopePermission,
+  type ScopeRequest,
+} from "./src/scope.ts";
+export {
+  type OAuthClientRegistration,
+  OAuthClientRegistry,
+  type OAuthClientRegistryOptions,
+  type RegistryCallbackResult,
+} from "./src/registry.ts";
 export {
   createDefaultResolver,
   CustomResolver,
   DirectoryResolver,
+  INVALID_HANDLE,
+  type ResolverOptions,
   SlingshotResolver,
+  type SlingshotResolverOptions,
 } from "./src/resolvers.ts";
+export {
+  EncryptedStorage,
+  type EncryptedStorageOptions,
+  type EncryptionKey,
+} from "./src/encrypted-storage.ts";
+export { DiscoveryCache, type DiscoveryCacheOptions } from "./src/discovery-cache.ts";
+export {
+  CryptoKeyDPoPKeyProvider,
+  type CryptoKeyDPoPKeyProviderOptions,
+  type DPoPKeyProvider,
+  type DPoPKeyReference,
+  type DPoPSigner,
+  JwkDPoPKeyProvider,
+} from "./src/dpop-keys.ts";
+export {
+  MemoryNonceStore,
+  type MemoryNonceStoreOptions,
+  type NonceStore,
+  StorageNonceStore,
+  type StorageNonceStoreOptions,
+} from "./src/nonce-store.ts";
+export type { BackgroundRefreshOptions } from "./src/refresh-scheduler.ts";
+export {
+  buildXrpcUrl,
+  type XrpcCallOptions,
+  XrpcClient,
+  type XrpcParams,
+  type XrpcParamValue,
+  type XrpcProcedureOptions,
+} from "./src/xrpc.ts";
 export { ConsoleLogger, type Logger, NoOpLogger } from "./src/logger.ts";
 export type {
+  AbortOptions,
   AuthorizeOptions,
+  ClientMetadata,
+  ClientMetadataOptions,
+  ClientSigningJWK,
+  FetchFunction,
   HandleResolver,
+  HandleVerificationStatus,
+  IdentityChange,
+  LoopbackClientOptions,
   OAuthClientConfig,
   OAuthSession,
   OAuthStorage,
+  OAuthTimeouts,
+  TimeoutPhase,
 } from "./src/types.ts";
 export * from "./src/errors.ts";
 export {
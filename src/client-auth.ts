@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Client authentication for OAuth token, PAR and revocation requests
+ * @module
+ */
+
+import { importJWK, SignJWT } from "@panva/jose";
+import { OAuthError } from "./errors.ts";
+import type { ClientSigningJWK } from "./types.ts";
+
+/** Client assertion type for `private_key_jwt` client authentication (RFC 7523) */
+export const CLIENT_ASSERTION_TYPE = "urn:ietf:params:oauth:client-assertion-type:jwt-bearer";
+
+/** Client assertion lifetime in seconds */
+const CLIENT_ASSERTION_TTL = 60;
+
+/** JWK members that hold private key material */
+const PRIVATE_JWK_MEMBERS = ["d", "p", "q", "dp", "dq", "qi", "oth", "k"] as const;
+
+/**
+ * Body parameters that authenticate the client on a single request.
+ * @internal
+ */
+export type ClientAuthParams = Record<string, string>;
+
+/**
+ * Produces fresh client authentication parameters for a single request.
+ * Called once per HTTP attempt so every client assertion gets a new `jti`.
+ * @internal
+ */
+export type ClientAuthProvider = () => Promise<ClientAuthParams>;
+
+/**
+ * Infer the JWS algorithm for a signing key.
+ */
+function signingAlgorithm(jwk: ClientSigningJWK): string {
+  if (jwk.alg) return jwk.alg;
+  if (jwk.kty === "EC" && jwk.crv === "P-256") return "ES256";
+  if (jwk.kty === "EC" && jwk.crv === "P-384") return "ES384";
+  throw new OAuthError(`Cannot determine signing algorithm for client key "${jwk.kid}"`);
+}
+
+/**
+ * Client authenticator for AT Protocol OAuth requests.
+ *
+ * Public clients authenticate with `client_id` only. When a keyset is
+ * configured, the client is confidential and every request carries a signed
+ * `private_key_jwt` client assertion with a fresh `jti`, audience-bound to the
+ * authorization server issuer.
+ *
+ * @example
+ * ```ts
+ * const auth = new ClientAuthenticator(clientId, [privateJwk]);
+ * const params = await auth.getParams("https://bsky.social");
+ * // { client_id, client_assertion_type, client_assertion }
+ * ```
+ * @internal
+ */
+export class ClientAuthenticator {
+  private readonly keys = new Map<string, ClientSigningJWK>();
+  private readonly importedKeys = new Map<string, Promise<CryptoKey | Uint8Array>>();
+  private readonly defaultKeyId?: string;
+
+  /**
+   * Create a new client authenticator.
+   *
+   * @param clientId - OAuth client ID
+   * @param keyset - Private signing keys for confidential clients (optional)
+   * @param keyId - Key ID used to sign assertions (defaults to the first key)
+   * @throws {OAuthError} When the keyset is invalid or keyId is unknown
+   */
+  constructor(
+    private readonly clientId: string,
+    keyset?: ClientSigningJWK[],
+    keyId?: string,
+  ) {
+    for (const jwk of keyset ?? []) {
+      if (!jwk.kid) {
+        throw new OAuthError("Client signing keys must have a 'kid'");
+      }
+      if (!jwk.d) {
+        throw new OAuthError(`Client signing key "${jwk.kid}" is not a private key`);
+      }
+      if (this.keys.has(jwk.kid)) {
+        throw new OAuthError(`Duplicate client signing key ID: ${jwk.kid}`);
+      }
+      this.keys.set(jwk.kid, jwk);
+    }
+
+    if (keyId !== undefined && !this.keys.has(keyId)) {
+      throw new OAuthError(`Client signing key not found in keyset: ${keyId}`);
+    }
+
+    const defaultKeyId = keyId ?? this.keys.keys().next().value;
+    if (defaultKeyId !== undefined) {
+      this.defaultKeyId = defaultKeyId;
+    }
+  }
+
+  /**
+   * Whether this client authenticates with a signed client assertion.
+   */
+  get isConfidential(): boolean {
+    return this.keys.size > 0;
+  }
+
+  /**
+   * Key ID used for new authorizations (undefined for public clients).
+   */
+  get currentKeyId(): string | undefined {
+    return this.defaultKeyId;
+  }
+
+  /**
+   * Signing algorithm of the key used for new authorizations.
+   */
+  get currentAlgorithm(): string | undefined {
+    const jwk = this.defaultKeyId ? this.keys.get(this.defaultKeyId) : undefined;
+    return jwk ? signingAlgorithm(jwk) : undefined;
+  }
+
+  /**
+   * Public JWKS for the configured keyset, with all private members removed.
+   *
+   * @returns JWK Set containing one public signing key per configured key
+   */
+  getPublicJwks(): { keys: JsonWebKey[] } {
+    const keys = [...this.keys.values()].map((jwk) => {
+      const publicJwk: Record<string, unknown> = { ...jwk };
+      for (const member of PRIVATE_JWK_MEMBERS) {
+        delete publicJwk[member];
+      }
+      delete publicJwk.key_ops;
+      delete publicJwk.ext;
+      return { ...publicJwk, use: "sig", alg: signingAlgorithm(jwk) } as JsonWebKey;
+    });
+    return { keys };
+  }
+
+  /**
+   * Build client authentication parameters for a request.
+   *
+   * @param audience - Authorization server issuer the assertion is intended for
+   * @param keyId - Key ID to sign with (defaults to the configured key)
+   * @returns Body parameters to include in the request
+   * @throws {OAuthError} When the requested key is not in the keyset
+   */
+  async getParams(audience: string, keyId?: string): Promise<ClientAuthParams> {
+    if (!this.isConfidential) {
+      return { client_id: this.clientId };
+    }
+
+    const kid = keyId ?? this.defaultKeyId!;
+    const jwk = this.keys.get(kid);
+    if (!jwk) {
+      throw new OAuthError(`Client signing key not found in keyset: ${kid}`);
+    }
+
+    const alg = signingAlgorithm(jwk);
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = await new SignJWT({
+      iss: this.clientId,
+      sub: this.clientId,
+      aud: audience,
+      jti: crypto.randomUUID(),
+      iat: now,
+      exp: now + CLIENT_ASSERTION_TTL,
+    })
+      .setProtectedHeader({ alg, kid })
+      .sign(await this.importKey(jwk, alg));
+
+    return {
+      client_id: this.clientId,
+      client_assertion_type: CLIENT_ASSERTION_TYPE,
+      client_assertion: assertion,
+    };
+  }
+
+  /**
+   * Create a provider that produces fresh parameters for each request attempt.
+   *
+   * @param audience - Authorization server issuer
+   * @param keyId - Key ID to sign with (defaults to the configured key)
+   */
+  provider(audience: string, keyId?: string): ClientAuthProvider {
+    return () => this.getParams(audience, keyId);
+  }
+
+  private importKey(jwk: ClientSigningJWK, alg: string): Promise<CryptoKey | Uint8Array> {
+    let imported = this.importedKeys.get(jwk.kid);
+    if (!imported) {
+      imported = importJWK(jwk, alg).catch((error) => {
+        this.importedKeys.delete(jwk.kid);
+        throw new OAuthError(`Failed to import client signing key "${jwk.kid}"`, error as Error);
+      });
+      this.importedKeys.set(jwk.kid, imported);
+    }
+    return imported;
+  }
+}
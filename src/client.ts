@@ -4,9 +4,29 @@
  */
 
 import { isValidHandle } from "@atproto/syntax";
-import type { AuthorizeOptions, OAuthClientConfig, OAuthSession, OAuthStorage } from "./types.ts";
+import type {
+  AbortOptions,
+  AuthorizeOptions,
+  ClientMetadata,
+  FetchFunction,
+  HandleResolver,
+  HandleVerificationStatus,
+  IdentityChange,
+  LoopbackClientOptions,
+  OAuthClientConfig,
+  OAuthSession,
+  OAuthStorage,
+  OAuthTimeouts,
+  TimeoutPhase,
+} from "./types.ts";
 import { Session, type SessionData } from "./session.ts";
-import { generateDPoPKeyPair } from "./dpop.ts";
+import { migrateSessionData, SESSION_DATA_VERSION } from "./session-schema.ts";
+import {
+  type DPoPKeyProvider,
+  type DPoPKeyReference,
+  dpopKeyReference,
+  JwkDPoPKeyProvider,
+} from "./dpop-keys.ts";
 import {
   AuthorizationError,
   InvalidHandleError,
@@ -16,24 +36,73 @@ import {
   OAuthError,
   RefreshTokenExpiredError,
   RefreshTokenRevokedError,
+  SessionDataCorruptError,
   SessionError,
   SessionNotFoundError,
+  TimeoutError,
   TokenExchangeError,
 } from "./errors.ts";
 import {
   createDefaultResolver,
   discoverOAuthEndpointsFromPDS,
+  type DiscoveryOptions,
+  INVALID_HANDLE,
+  type OAuthEndpoints,
   resolveDidDocument,
+  verifyHandle,
 } from "./resolvers.ts";
-import { validateTokenResponse } from "./validation.ts";
+import { type ValidatedAuthServerMetadata, validateTokenResponse } from "./validation.ts";
 import { generateCodeChallenge, generateCodeVerifier } from "./pkce.ts";
 import { exchangeCodeForTokens, refreshTokens } from "./token-exchange.ts";
+import { ClientAuthenticator } from "./client-auth.ts";
+import { DiscoveryCache } from "./discovery-cache.ts";
+import { MemoryNonceStore, type NonceStore } from "./nonce-store.ts";
+import { RefreshScheduler } from "./refresh-scheduler.ts";
+import { abortable, fetchWithSignal, withTimeout } from "./timeout.ts";
+import {
+  buildLoopbackClientId,
+  isLoopbackClientId,
+  validateLoopbackRedirectUri,
+  validateLoopbackScope,
+} from "./loopback.ts";
 import type { Logger } from "./logger.ts";
 import { NoOpLogger } from "./logger.ts";
 
 /** PKCE state TTL in seconds (10 minutes) */
 const PKCE_STATE_TTL = 600;
 
+/** Default OAuth scope requested when none is configured */
+const DEFAULT_SCOPE = "atproto transition:generic";
+
+/** Attempts at a conflicting compare-and-set update of a DID's session index */
+const MAX_INDEX_UPDATE_ATTEMPTS = 5;
+
+/** Network phase timeouts in milliseconds, when not configured */
+const DEFAULT_TIMEOUTS: Required<OAuthTimeouts> = {
+  handleResolution: 10_000,
+  didResolution: 10_000,
+  discovery: 10_000,
+  par: 10_000,
+  tokenExchange: 30_000,
+  refresh: 30_000,
+  revocation: 10_000,
+};
+
+/**
+ * Authorization state persisted between `authorize()` and `callback()`.
+ */
+interface PkceState {
+  codeVerifier: string;
+  authServer: string;
+  issuer: string;
+  /** Validated metadata of the authorization server the flow started with */
+  authServerMetadata: ValidatedAuthServerMetadata;
+  handle: string;
+  did: string;
+  pdsUrl: string;
+  clientKeyId?: string;
+}
+
 /**
  * AT Protocol OAuth client for Deno environments.
  *
@@ -73,10 +142,17 @@ export class OAuthClient {
   private readonly config: OAuthClientConfig;
   private readonly clientId: string;
   private readonly redirectUri: string;
+  private readonly scope: string;
   private readonly storage: OAuthStorage;
-  private readonly handleResolver: (handle: string) => Promise<{ did: string; pdsUrl: string }>;
+  private readonly handleResolver: HandleResolver;
   private readonly logger: Logger;
-  private readonly refreshTimeout: number;
+  private readonly timeouts: Required<OAuthTimeouts>;
+  private readonly clientAuth: ClientAuthenticator;
+  private readonly fetch: FetchFunction;
+  private readonly discoveryOptions: DiscoveryOptions;
+  private readonly nonceStore: NonceStore;
+  private readonly dpopKeyProvider: DPoPKeyProvider;
+  private readonly refreshScheduler?: RefreshScheduler;
 
   /**
    * Per-session lock manager to prevent concurrent restore/refresh operations.
@@ -85,8 +161,9 @@ export class OAuthClient {
   private readonly restoreLocks = new Map<string, Promise<Session>>();
 
   /**
-   * Per-DID lock manager to prevent concurrent refresh operations.
-   * Maps DID to the in-flight refresh Promise to queue concurrent requests.
+   * Per-session lock manager to prevent concurrent refresh operations.
+   * Maps session ID (or DID for unstored sessions) to the in-flight refresh
+   * Promise to queue concurrent requests.
    */
   private readonly refreshLocks = new Map<string, Promise<Session>>();
 
@@ -112,13 +189,29 @@ export class OAuthClient {
     this.config = config;
     this.clientId = config.clientId;
     this.redirectUri = config.redirectUri;
+    this.scope = config.scope ?? DEFAULT_SCOPE;
     this.storage = config.storage;
     this.logger = config.logger ?? new NoOpLogger();
-    this.refreshTimeout = config.refreshTimeout ?? 30_000;
+    this.timeouts = {
+      ...DEFAULT_TIMEOUTS,
+      ...(config.refreshTimeout !== undefined ? { refresh: config.refreshTimeout } : {}),
+      ...config.timeouts,
+    };
+    // Look up the global fetch per request, so it can still be replaced later
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init));
+    this.discoveryOptions = {
+      cache: config.discoveryCache ?? new DiscoveryCache(),
+      fetch: this.fetch,
+    };
+    this.nonceStore = config.nonceStore ?? new MemoryNonceStore();
+    this.dpopKeyProvider = config.dpopKeyProvider ?? new JwkDPoPKeyProvider();
 
     // Create handle resolver - either custom or default with optional Slingshot URL
-    const resolver = config.handleResolver ?? createDefaultResolver(config.slingshotUrl);
-    this.handleResolver = (handle: string) => resolver.resolve(handle);
+    this.handleResolver = config.handleResolver ??
+      createDefaultResolver({
+        ...(config.slingshotUrl ? { url: config.slingshotUrl } : {}),
+        fetch: this.fetch,
+      });
 
     // Validate configuration
     if (!this.clientId) {
@@ -127,10 +220,71 @@ export class OAuthClient {
     if (!this.redirectUri) {
       throw new OAuthError("redirectUri is required");
     }
+    if (isLoopbackClientId(this.clientId)) {
+      validateLoopbackRedirectUri(this.redirectUri);
+      if (config.keyset?.length) {
+        throw new OAuthError("Loopback clients are public and cannot use a keyset");
+      }
+    }
+
+    this.clientAuth = new ClientAuthenticator(this.clientId, config.keyset, config.keyId);
+
+    if (config.backgroundRefresh) {
+      this.refreshScheduler = new RefreshScheduler(
+        async (sessionId, session) => {
+          const refreshed = await this.refresh(session);
+          await this.store(sessionId, refreshed);
+        },
+        this.logger,
+        config.backgroundRefresh,
+      );
+    }
 
     this.logger.debug("OAuth client initialized", { clientId: this.clientId });
   }
 
+  /**
+   * Create a loopback development client.
+   *
+   * Builds a spec-compliant `http://localhost` client ID that encodes the
+   * `redirect_uri` and `scope` as query parameters, so the login flow can run
+   * locally without hosting a client metadata document. The redirect URI uses
+   * a loopback IP (`http://127.0.0.1` by default). `authorize()` and
+   * `callback()` work exactly as for a hosted client, except that a per-call
+   * `scope` must be covered by the scope encoded in the client ID.
+   *
+   * @param options - Loopback options plus regular client configuration
+   * @returns OAuth client configured for local development
+   * @throws {OAuthError} When the loopback options are invalid
+   *
+   * @example
+   * ```ts
+   * const client = OAuthClient.loopback({
+   *   port: 8080,
+   *   path: "/oauth/callback",
+   *   scope: "atproto transition:generic",
+   *   storage: new MemoryStorage(),
+   * });
+   * // client_id: http://localhost?redirect_uri=http%3A%2F%2F127.0.0.1%3A8080%2Foauth%2Fcallback&scope=...
+   * ```
+   */
+  static loopback(options: LoopbackClientOptions): OAuthClient {
+    const { port, path, host, ...config } = options;
+    const redirectUri = new URL(`http://${host ?? "127.0.0.1"}`);
+    if (port !== undefined) {
+      redirectUri.port = String(port);
+    }
+    redirectUri.pathname = path ?? "/";
+
+    const scope = config.scope ?? DEFAULT_SCOPE;
+    return new OAuthClient({
+      ...config,
+      scope,
+      clientId: buildLoopbackClientId(redirectUri.href, scope),
+      redirectUri: redirectUri.href,
+    });
+  }
+
   /**
    * Initiate OAuth authorization flow for an AT Protocol handle or auth server URL.
    *
@@ -143,11 +297,14 @@ export class OAuthClient {
    * from the server. This enables "Connect with Bluesky" flows.
    *
    * @param input - AT Protocol handle (e.g., "alice.bsky.social") or authorization server URL (e.g., "https://bsky.social")
-   * @param options - Additional authorization options
+   * @param options - Additional authorization options; `signal` cancels the flow
    * @returns Promise resolving to authorization URL for user redirection
    * @throws {InvalidHandleError} When handle format is invalid
+   * @throws {OAuthError} When a loopback client passes a `scope` not covered by
+   *   the scope encoded in its client ID
    * @throws {HandleResolutionError} When handle cannot be resolved to DID/PDS
    * @throws {OAuthError} When OAuth endpoint discovery or PAR fails
+   * @throws {TimeoutError} When handle resolution, discovery or PAR times out
    *
    * @example
    * ```ts
@@ -172,74 +329,92 @@ export class OAuthClient {
       throw new InvalidHandleError(input);
     }
 
+    // Loopback clients can't widen the scope fixed by their client ID
+    if (options?.scope && isLoopbackClientId(this.clientId)) {
+      validateLoopbackScope(this.clientId, options.scope);
+    }
+
     this.logger.info("Starting authorization flow", { input });
+    const signal = options?.signal;
 
     try {
-      let authServer: string;
       let did: string;
       let pdsUrl: string;
       let handle: string;
 
-      let issuer: string;
+      let oauthEndpoints: OAuthEndpoints;
 
       if (isAuthServerUrl) {
         // Authorization server URL provided directly — skip handle resolution
-        authServer = input.replace(/\/$/, "");
-        pdsUrl = authServer;
+        const serverUrl = input.replace(/\/$/, "");
+        pdsUrl = serverUrl;
         did = "";
         handle = "";
-        this.logger.debug("Using authorization server URL directly", { authServer });
+        this.logger.debug("Using authorization server URL directly", { serverUrl });
 
         // Discover OAuth endpoints to verify this is a valid auth server
-        const oauthEndpoints = await discoverOAuthEndpointsFromPDS(authServer);
-        authServer = this.extractAuthServer(oauthEndpoints.authorizationEndpoint);
-        issuer = oauthEndpoints.issuer;
-        this.logger.debug("OAuth endpoints discovered", { authServer, issuer });
+        oauthEndpoints = await this.discover(serverUrl, signal);
       } else {
         // Resolve handle to get user's PDS and DID
         handle = input;
         this.logger.debug("Resolving handle to DID and PDS", { handle });
-        const resolved = await this.handleResolver(handle);
+        const resolved = await this.phase(
+          "handleResolution",
+          signal,
+          (_fetch, phaseSignal) => this.handleResolver.resolve(handle, { signal: phaseSignal }),
+        );
         this.logger.debug("Handle resolved", { did: resolved.did, pdsUrl: resolved.pdsUrl });
 
         did = resolved.did;
         pdsUrl = resolved.pdsUrl;
 
         // Discover OAuth endpoints from the PDS
-        const oauthEndpoints = await discoverOAuthEndpointsFromPDS(pdsUrl);
-        authServer = this.extractAuthServer(oauthEndpoints.authorizationEndpoint);
-        issuer = oauthEndpoints.issuer;
-        this.logger.debug("OAuth endpoints discovered", { authServer, issuer });
+        oauthEndpoints = await this.discover(pdsUrl, signal);
       }
 
+      const { issuer, metadata: authServerMetadata } = oauthEndpoints;
+      const authServer = issuer;
+      this.logger.debug("OAuth endpoints discovered", {
+        issuer,
+        authorizationEndpoint: oauthEndpoints.authorizationEndpoint,
+        tokenEndpoint: oauthEndpoints.tokenEndpoint,
+      });
+
       // Generate PKCE parameters
       const codeVerifier = generateCodeVerifier();
       const codeChallenge = await generateCodeChallenge(codeVerifier);
       const state = options?.state ?? crypto.randomUUID();
+      const clientKeyId = this.clientAuth.currentKeyId;
 
-      // Store PKCE data for callback (includes issuer for verification)
-      await this.storage.set(`pkce:${state}`, {
+      // Store PKCE data for callback (includes issuer and metadata for verification)
+      const pkceState: PkceState = {
         codeVerifier,
         authServer,
         issuer,
+        authServerMetadata,
         handle,
         did,
         pdsUrl,
-      }, { ttl: PKCE_STATE_TTL });
+        ...(clientKeyId ? { clientKeyId } : {}),
+      };
+      await this.storage.set(`pkce:${state}`, pkceState, { ttl: PKCE_STATE_TTL });
 
       this.logger.debug("PKCE state stored", { state });
 
       // Pushed Authorization Request (PAR) - required by most AT Protocol servers
-      const parUrl = await this.pushAuthorizationRequest(
-        authServer,
-        {
-          codeChallenge,
-          state,
-          scope: options?.scope ?? "atproto transition:generic",
-          ...(isAuthServerUrl ? {} : { loginHint: options?.loginHint ?? input }),
-          ...(options?.prompt ? { prompt: options.prompt } : {}),
-        },
-      );
+      const parUrl = await this.phase("par", signal, (fetch) =>
+        this.pushAuthorizationRequest(
+          authServerMetadata,
+          clientKeyId,
+          {
+            codeChallenge,
+            state,
+            scope: options?.scope ?? this.scope,
+            ...(isAuthServerUrl ? {} : { loginHint: options?.loginHint ?? input }),
+            ...(options?.prompt ? { prompt: options.prompt } : {}),
+          },
+          fetch,
+        ));
 
       this.logger.info("Authorization URL created", { parUrl });
       return new URL(parUrl);
@@ -247,6 +422,7 @@ export class OAuthClient {
       if (error instanceof OAuthError) {
         throw error;
       }
+      signal?.throwIfAborted();
       this.logger.error("Authorization failed", { error });
       throw new OAuthError("Failed to initiate authorization", error as Error);
     }
@@ -260,11 +436,13 @@ export class OAuthClient {
    * tokens. Returns an authenticated session ready for API requests.
    *
    * @param params - OAuth callback parameters from redirect URL
+   * @param options - Abort options; `signal` cancels the code exchange and identity checks
    * @returns Promise resolving to authenticated session
    * @throws {AuthorizationError} When OAuth authorization failed (error in callback)
    * @throws {OAuthError} When authorization code is missing
    * @throws {InvalidStateError} When state parameter is invalid or expired
    * @throws {TokenExchangeError} When token exchange fails
+   * @throws {TimeoutError} When the code exchange or DID resolution times out
    *
    * @example
    * ```ts
@@ -278,7 +456,11 @@ export class OAuthClient {
    */
   async callback(
     params: URLSearchParams,
+    options: AbortOptions = {},
   ): Promise<{ session: OAuthSession; state: string | null }> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+
     // JARM detection — reject JWT-encoded authorization responses
     const responseJwt = params.get("response");
     if (responseJwt) {
@@ -307,15 +489,11 @@ export class OAuthClient {
 
     this.logger.info("Processing authorization callback", { state });
 
-    // Retrieve PKCE data
-    const pkceData = await this.storage.get<{
-      codeVerifier: string;
-      authServer: string;
-      issuer: string;
-      handle: string;
-      did: string;
-      pdsUrl: string;
-    }>(`pkce:${state}`);
+    // Consume PKCE data; atomically when the storage supports it, so a replayed
+    // callback racing the original cannot redeem the same state twice
+    const pkceData = this.storage.getAndDelete
+      ? await this.storage.getAndDelete<PkceState>(`pkce:${state}`)
+      : await this.storage.get<PkceState>(`pkce:${state}`);
 
     if (!pkceData) {
       this.logger.error("Invalid or expired state parameter", { state });
@@ -333,21 +511,29 @@ export class OAuthClient {
       throw new IssuerMismatchError(pkceData.issuer, iss);
     }
 
+    let dpopKey: DPoPKeyReference | undefined;
     try {
       // Generate DPoP keys for token exchange
       this.logger.debug("Generating DPoP keys");
-      const dpopKeys = await generateDPoPKeyPair();
+      dpopKey = await this.dpopKeyProvider.generateKey();
+      const dpopKeys = {
+        privateKey: await this.dpopKeyProvider.getSigner(dpopKey),
+        publicKeyJWK: dpopKey.publicKeyJWK,
+      };
 
       // Exchange authorization code for tokens
-      const rawTokens = await exchangeCodeForTokens(
-        pkceData.authServer,
-        code,
-        pkceData.codeVerifier,
-        this.clientId,
-        this.redirectUri,
-        dpopKeys,
-        this.logger,
-      );
+      const rawTokens = await this.phase("tokenExchange", signal, (fetch) =>
+        exchangeCodeForTokens(
+          pkceData.authServerMetadata.token_endpoint,
+          code,
+          pkceData.codeVerifier,
+          this.clientAuth.provider(pkceData.issuer, pkceData.clientKeyId),
+          this.redirectUri,
+          dpopKeys,
+          this.nonceStore,
+          this.logger,
+          fetch,
+        ));
 
       // Validate token response
       const validatedTokens = validateTokenResponse(rawTokens);
@@ -355,21 +541,30 @@ export class OAuthClient {
       // Resolve DID, handle, and PDS from token response
       let { did, handle, pdsUrl } = pkceData;
       const tokenDid = validatedTokens.sub;
+      // The entered handle already resolved to this DID during authorize()
+      let handleVerification: HandleVerificationStatus = "verified";
 
-      if (!did) {
-        // Auth server URL flow — populate from token sub claim
+      if (did !== tokenDid) {
+        // Auth server URL flow (or a different account signed in) — populate from token sub claim
         did = tokenDid;
         this.logger.debug("Using DID from token response sub claim", { did });
-        const resolved = await resolveDidDocument(did);
-        handle = resolved.handle;
+        const resolved = await this.resolveDid(did, signal);
         pdsUrl = resolved.pdsUrl;
+
+        // The DID document's handle is only a claim until it resolves back to the DID
+        const verified = await this.verifyHandle(did, resolved.handle, signal);
+        handleVerification = verified ? "verified" : "invalid";
+        handle = verified ? resolved.handle : INVALID_HANDLE;
+        if (!verified) {
+          this.logger.warn("Handle verification failed", { did, claimed: resolved.handle });
+        }
         this.logger.debug("Resolved DID document", { handle, pdsUrl });
       }
 
       // CRITICAL: Verify the auth server is authoritative for this DID
       // Prevents a malicious auth server from claiming to be another user
       try {
-        await this.verifyIssuer(tokenDid, pkceData.authServer, pkceData.issuer, pdsUrl);
+        await this.verifyIssuer(tokenDid, pkceData.authServer, pkceData.issuer, pdsUrl, signal);
       } catch (verifyError) {
         if (verifyError instanceof IssuerMismatchError) {
           // Attach resolved identity so callers can re-authorize via the correct server
@@ -381,21 +576,35 @@ export class OAuthClient {
       }
 
       // Create session
+      const now = Date.now();
+      const { authServerMetadata } = pkceData;
       const sessionData: SessionData = {
+        version: SESSION_DATA_VERSION,
         did,
         handle,
         pdsUrl,
         accessToken: validatedTokens.access_token,
         refreshToken: validatedTokens.refresh_token ?? "",
-        dpopPrivateKeyJWK: dpopKeys.privateKeyJWK,
-        dpopPublicKeyJWK: dpopKeys.publicKeyJWK,
-        tokenExpiresAt: Date.now() + (validatedTokens.expires_in * 1000),
+        dpopPublicKeyJWK: dpopKey.publicKeyJWK,
+        ...(dpopKey.privateKeyJWK ? { dpopPrivateKeyJWK: dpopKey.privateKeyJWK } : {}),
+        ...(dpopKey.keyId ? { dpopKeyId: dpopKey.keyId } : {}),
+        tokenExpiresAt: now + (validatedTokens.expires_in * 1000),
+        scope: validatedTokens.scope,
+        issuer: pkceData.issuer,
+        tokenEndpoint: authServerMetadata.token_endpoint,
+        ...(authServerMetadata.revocation_endpoint
+          ? { revocationEndpoint: authServerMetadata.revocation_endpoint }
+          : {}),
+        createdAt: now,
+        refreshTokenIssuedAt: now,
+        handleVerification,
+        ...(pkceData.clientKeyId ? { clientKeyId: pkceData.clientKeyId } : {}),
       };
 
       const session = new Session(sessionData);
 
-      // Attach refresh callback for auto-retry on 401
-      this.attachRefreshCallback(session, did);
+      // Share the nonce store and attach refresh callback for auto-retry on 401
+      this.attachSession(session);
 
       // Clean up PKCE data
       await this.storage.delete(`pkce:${state}`);
@@ -409,10 +618,13 @@ export class OAuthClient {
     } catch (error) {
       // Clean up PKCE data even on error
       await this.storage.delete(`pkce:${state}`);
+      // No session will reference the new DPoP key
+      if (dpopKey) await this.deleteDPoPKey(dpopKey);
 
       if (error instanceof OAuthError) {
         throw error;
       }
+      signal?.throwIfAborted();
       this.logger.error("Token exchange failed", { error });
       throw new TokenExchangeError("Token exchange failed", undefined, error as Error);
     }
@@ -431,11 +643,17 @@ export class OAuthClient {
    * token refresh requests.
    *
    * @param sessionId - Unique identifier for the stored session
+   * @param options - Abort options. Aborting stops waiting for the session; a
+   *   token refresh already in flight still completes and is stored, so
+   *   rotated tokens are not lost
    * @returns Promise resolving to restored session
    * @throws {SessionNotFoundError} When session doesn't exist in storage
    * @throws {RefreshTokenExpiredError} When refresh token has expired
    * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When discovery or the token refresh times out
    * @throws {TokenExchangeError} When token refresh fails
+   * @throws {IssuerMismatchError} When the PDS's authorization server is no
+   *   longer the one that issued the session
    *
    * @example
    * ```ts
@@ -453,13 +671,16 @@ export class OAuthClient {
    * }
    * ```
    */
-  restore(sessionId: string): Promise<Session> {
+  restore(sessionId: string, options: AbortOptions = {}): Promise<Session> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
     // Check if another request is already restoring/refreshing this session
     const existingLock = this.restoreLocks.get(sessionId);
     if (existingLock) {
       this.logger.debug("Waiting for in-flight restore operation", { sessionId });
       // Wait for and reuse the in-flight restore operation
-      return existingLock;
+      return abortable(existingLock, signal);
     }
 
     // Create a new restore operation
@@ -467,16 +688,16 @@ export class OAuthClient {
       try {
         this.logger.info("Restoring session", { sessionId });
 
-        const sessionData = await this.storage.get<SessionData>(`session:${sessionId}`);
+        const sessionData = await this.loadSessionData(sessionId);
         if (!sessionData) {
           this.logger.warn("Session not found in storage", { sessionId });
           throw new SessionNotFoundError(sessionId);
         }
 
-        const session = Session.fromJSON(sessionData);
+        const session = new Session(sessionData);
 
-        // Attach refresh callback for auto-retry on 401
-        this.attachRefreshCallback(session, sessionId);
+        // Share the nonce store and attach refresh callback for auto-retry on 401
+        this.attachSession(session, sessionId);
 
         // Auto-refresh if needed
         if (session.isExpired) {
@@ -488,6 +709,7 @@ export class OAuthClient {
           try {
             const refreshedSession = await this.refresh(session);
             await this.storage.set(`session:${sessionId}`, refreshedSession.toJSON());
+            this.refreshScheduler?.schedule(sessionId, refreshedSession);
             this.logger.info("Session restored and refreshed", { sessionId });
             return refreshedSession;
           } catch (error) {
@@ -504,7 +726,7 @@ export class OAuthClient {
               }
               throw error;
             }
-            if (error instanceof NetworkError) {
+            if (error instanceof NetworkError || error instanceof IssuerMismatchError) {
               throw error;
             }
             // Wrap unknown errors as generic token exchange errors
@@ -516,16 +738,19 @@ export class OAuthClient {
           }
         }
 
+        this.refreshScheduler?.schedule(sessionId, session);
         this.logger.info("Session restored", { sessionId });
         return session;
       } catch (error) {
         // Re-throw typed errors as-is
         if (
           error instanceof SessionNotFoundError ||
+          error instanceof SessionDataCorruptError ||
           error instanceof RefreshTokenExpiredError ||
           error instanceof RefreshTokenRevokedError ||
           error instanceof NetworkError ||
-          error instanceof TokenExchangeError
+          error instanceof TokenExchangeError ||
+          error instanceof IssuerMismatchError
         ) {
           throw error;
         }
@@ -545,7 +770,8 @@ export class OAuthClient {
     // Store the promise so concurrent requests can wait for it
     this.restoreLocks.set(sessionId, restorePromise);
 
-    return restorePromise;
+    // Other callers share the operation, so a signal only ends this caller's wait
+    return abortable(restorePromise, signal);
   }
 
   /**
@@ -567,7 +793,79 @@ export class OAuthClient {
    */
   async store(sessionId: string, session: Session): Promise<void> {
     this.logger.info("Storing session", { sessionId, did: session.did });
+    session.setSessionId(sessionId);
     await this.storage.set(`session:${sessionId}`, session.toJSON());
+    await this.updateSessionIndex(
+      session.did,
+      (ids) => ids.includes(sessionId) ? ids : [...ids, sessionId],
+    );
+    this.refreshScheduler?.schedule(sessionId, session);
+  }
+
+  /**
+   * List the stored sessions of a DID.
+   *
+   * Sessions are found through a DID → session ID index that {@link store}
+   * and {@link signOut} maintain. Sessions are loaded as in {@link restore},
+   * upgrading records from older versions in storage, but without refreshing
+   * expired tokens; index entries whose session no longer exists are pruned.
+   *
+   * @param did - User's DID
+   * @returns Promise resolving to the DID's sessions with their IDs
+   * @throws {SessionDataCorruptError} When a stored session is malformed
+   *
+   * @example
+   * ```ts
+   * // "Your devices" page
+   * for (const { sessionId, session } of await client.listSessions(did)) {
+   *   console.log(sessionId, session.handle, session.isExpired ? "expired" : "active");
+   * }
+   * ```
+   */
+  async listSessions(did: string): Promise<Array<{ sessionId: string; session: Session }>> {
+    const sessionIds = await this.storage.get<string[]>(`did-sessions:${did}`) ?? [];
+
+    const sessions: Array<{ sessionId: string; session: Session }> = [];
+    const stale: string[] = [];
+    for (const sessionId of sessionIds) {
+      const sessionData = await this.loadSessionData(sessionId);
+      if (!sessionData || sessionData.did !== did) {
+        stale.push(sessionId);
+        continue;
+      }
+      const session = new Session(sessionData);
+      this.attachSession(session, sessionId);
+      sessions.push({ sessionId, session });
+    }
+
+    if (stale.length > 0) {
+      this.logger.debug("Pruning stale session index entries", { did, stale });
+      await this.updateSessionIndex(did, (ids) => ids.filter((id) => !stale.includes(id)));
+    }
+    return sessions;
+  }
+
+  /**
+   * List the IDs of all stored sessions.
+   *
+   * Requires a storage backend that implements the optional `list()` method
+   * (all built-in backends do).
+   *
+   * @returns Promise resolving to the session IDs
+   * @throws {OAuthError} When the storage does not support listing keys
+   *
+   * @example
+   * ```ts
+   * const sessionIds = await client.getSessionIds();
+   * console.log(`${sessionIds.length} stored sessions`);
+   * ```
+   */
+  async getSessionIds(): Promise<string[]> {
+    if (!this.storage.list) {
+      throw new OAuthError("Storage does not support listing keys (missing list())");
+    }
+    const keys = await this.storage.list("session:");
+    return keys.map((key) => key.slice("session:".length));
   }
 
   /**
@@ -584,6 +882,8 @@ export class OAuthClient {
    * @param session Current session with valid refresh token
    * @returns New session with refreshed tokens
    * @throws {TokenExchangeError} When token refresh fails or refresh token is invalid
+   * @throws {IssuerMismatchError} When the PDS's authorization server is no
+   *   longer the one that issued the session; the refresh token is not sent
    *
    * @example
    * ```ts
@@ -601,19 +901,22 @@ export class OAuthClient {
    */
   refresh(session: Session): Promise<Session> {
     const did = session.did;
+    // A DID can have several sessions with their own refresh tokens, so lock
+    // per stored session and only fall back to the DID for unstored ones
+    const lockKey = session.sessionId ?? did;
 
     // Use custom lock if provided
     if (this.config.requestLock) {
       return this.config.requestLock(
-        `refresh:${did}`,
+        `refresh:${lockKey}`,
         () => this.performRefresh(session, did),
       );
     }
 
     // Check if another request is already refreshing this session
-    const existingLock = this.refreshLocks.get(did);
+    const existingLock = this.refreshLocks.get(lockKey);
     if (existingLock) {
-      this.logger.debug("Waiting for in-flight refresh operation", { did });
+      this.logger.debug("Waiting for in-flight refresh operation", { did, lockKey });
       return existingLock;
     }
 
@@ -622,32 +925,58 @@ export class OAuthClient {
       try {
         return await this.performRefresh(session, did);
       } finally {
-        this.refreshLocks.delete(did);
+        this.refreshLocks.delete(lockKey);
       }
     })();
 
-    this.refreshLocks.set(did, refreshPromise);
+    this.refreshLocks.set(lockKey, refreshPromise);
     return refreshPromise;
   }
 
   private async performRefresh(session: Session, did: string): Promise<Session> {
     this.logger.info("Refreshing tokens", { did });
 
+    if (this.config.checkIdentityOnRefresh) {
+      try {
+        await this.refreshIdentity(session);
+      } catch (error) {
+        // A move to another authorization server makes the session unusable
+        if (error instanceof IssuerMismatchError) throw error;
+        this.logger.warn("Identity check failed, refreshing with known PDS", { did, error });
+      }
+    }
+
+    const sessionData = session.toJSON();
+
     try {
-      const oauthEndpoints = await discoverOAuthEndpointsFromPDS(session.pdsUrl);
-      this.logger.debug("Token endpoint discovered", {
-        tokenEndpoint: oauthEndpoints.tokenEndpoint,
-      });
+      const oauthEndpoints = await this.discover(session.pdsUrl);
 
-      const refreshedTokens = await refreshTokens(
-        oauthEndpoints.tokenEndpoint,
-        session.refreshToken,
-        this.clientId,
-        session.toJSON().dpopPrivateKeyJWK,
-        session.toJSON().dpopPublicKeyJWK,
-        this.logger,
-        this.refreshTimeout,
-      );
+      // Never send the refresh token to an authorization server other than
+      // the one that issued it (e.g. after the PDS switched servers)
+      if (sessionData.issuer && oauthEndpoints.issuer !== sessionData.issuer) {
+        this.logger.error("Authorization server changed since sign-in, not refreshing", {
+          did,
+          expectedIssuer: sessionData.issuer,
+          actualIssuer: oauthEndpoints.issuer,
+        });
+        throw new IssuerMismatchError(sessionData.issuer, oauthEndpoints.issuer);
+      }
+
+      const tokenEndpoint = sessionData.tokenEndpoint ?? oauthEndpoints.tokenEndpoint;
+      this.logger.debug("Token endpoint resolved", { tokenEndpoint });
+
+      const signer = await this.dpopKeyProvider.getSigner(dpopKeyReference(sessionData));
+      const refreshedTokens = await this.phase("refresh", undefined, (fetch) =>
+        refreshTokens(
+          tokenEndpoint,
+          session.refreshToken,
+          this.clientAuth.provider(oauthEndpoints.issuer, sessionData.clientKeyId),
+          signer,
+          sessionData.dpopPublicKeyJWK,
+          this.nonceStore,
+          this.logger,
+          fetch,
+        ));
 
       session.updateTokens(refreshedTokens);
       this.logger.info("Token refresh successful", { did });
@@ -655,32 +984,49 @@ export class OAuthClient {
       this.config.onSessionUpdated?.(did, session);
       return session;
     } catch (error) {
+      // The refresh token was not sent; don't revoke it at the new server either
+      if (error instanceof IssuerMismatchError) throw error;
+
       this.logger.error("Token refresh failed", { did, error });
 
       // Check for token replay error (concurrent refresh in another isolate)
-      if (this.isTokenReplayedError(error)) {
-        this.logger.info("Token replay detected, fetching updated session from storage", { did });
+      const sessionId = session.sessionId;
+      if (this.isTokenReplayedError(error) && sessionId) {
+        this.logger.info("Token replay detected, fetching updated session from storage", {
+          did,
+          sessionId,
+        });
         await this.sleep(200);
 
-        const updatedSessionData = await this.storage.get<SessionData>(`session:${did}`);
-        if (updatedSessionData) {
-          const updatedSession = Session.fromJSON(updatedSessionData);
-          if (!updatedSession.isExpired) {
-            this.logger.info("Retrieved refreshed session from storage after replay detection", {
-              did,
-            });
-            return updatedSession;
-          }
+        const updatedSessionData = await this.storage.get<SessionData>(`session:${sessionId}`);
+        if (updatedSessionData?.did === did && Date.now() < updatedSessionData.tokenExpiresAt) {
+          // Adopt the other isolate's tokens in place, so callers holding this
+          // session (e.g. a request retrying after a 401) use them too
+          session.updateTokens({
+            accessToken: updatedSessionData.accessToken,
+            refreshToken: updatedSessionData.refreshToken,
+            expiresIn: (updatedSessionData.tokenExpiresAt - Date.now()) / 1000,
+          });
+          this.logger.info("Retrieved refreshed session from storage after replay detection", {
+            did,
+            sessionId,
+          });
+          return session;
         }
 
         this.logger.error("Could not recover from token replay - no valid session in storage", {
           did,
+          sessionId,
+        });
+      } else if (this.isTokenReplayedError(error)) {
+        this.logger.error("Could not recover from token replay - session was never stored", {
+          did,
         });
       }
 
       // Best-effort revocation on non-recoverable, non-network errors
       if (!this.isTokenReplayedError(error) && !this.isNetworkError(error)) {
-        this.revokeTokenBestEffort(session.pdsUrl, session.refreshToken);
+        this.revokeTokenBestEffort(sessionData);
       }
 
       if (error instanceof TokenExchangeError) {
@@ -690,6 +1036,7 @@ export class OAuthClient {
         throw error;
       }
 
+      if (error instanceof TimeoutError) throw error;
       if (this.isNetworkError(error)) {
         throw new NetworkError("Failed to reach token endpoint", error as Error);
       }
@@ -698,6 +1045,98 @@ export class OAuthClient {
     }
   }
 
+  /**
+   * Re-resolve a session's DID document and pick up a changed handle or PDS.
+   *
+   * The handle is verified bidirectionally as at sign-in; if the handle
+   * lookup itself fails, the previous handle is kept. When the PDS changed,
+   * the new PDS must be shown to use the authorization server that issued
+   * the session, otherwise the change is rejected. For sessions stored
+   * without an `issuer`, the old PDS's authorization server is discovered to
+   * compare against. Changes are applied to the session in place,
+   * persisted if the session was stored, and reported through
+   * `onIdentityChanged`. Also available as `session.refreshIdentity()` and
+   * run before every refresh with `checkIdentityOnRefresh`.
+   *
+   * @param session - Session to check
+   * @returns The detected change, or null if handle and PDS are unchanged
+   * @throws {PDSDiscoveryError} When the DID document cannot be fetched or
+   *   parsed, or the authorization server of a changed PDS cannot be
+   *   discovered; the session is left unchanged
+   * @throws {TimeoutError} When DID or handle resolution or discovery times out
+   * @throws {IssuerMismatchError} When the new PDS uses a different
+   *   authorization server; the session is left unchanged and the user must
+   *   sign in again
+   *
+   * @example
+   * ```ts
+   * const change = await client.refreshIdentity(session);
+   * if (change?.pdsChanged) {
+   *   console.log(`Account moved from ${change.previous.pdsUrl} to ${change.current.pdsUrl}`);
+   * }
+   * ```
+   */
+  async refreshIdentity(session: Session): Promise<IdentityChange | null> {
+    const did = session.did;
+    const resolved = await this.resolveDid(did);
+
+    const verified = await this.lookupHandle(did, resolved.handle);
+    // A failed lookup says nothing about the handle; keep the previous one
+    let handle = session.handle;
+    let handleVerification = session.handleVerification;
+    if (verified !== null) {
+      handle = verified ? resolved.handle : INVALID_HANDLE;
+      handleVerification = verified ? "verified" : "invalid";
+    }
+    const change: IdentityChange = {
+      did,
+      previous: { handle: session.handle, pdsUrl: session.pdsUrl },
+      current: { handle, pdsUrl: resolved.pdsUrl },
+      handleChanged: handle !== session.handle,
+      pdsChanged: resolved.pdsUrl !== session.pdsUrl,
+    };
+
+    if (!change.handleChanged && !change.pdsChanged) {
+      this.logger.debug("Identity unchanged", { did });
+      return null;
+    }
+
+    if (change.pdsChanged) {
+      // Fail closed: discovery errors reject the change instead of skipping the check
+      const issuer = session.issuer ?? (await this.discover(session.pdsUrl)).issuer;
+      const newIssuer = (await this.discover(resolved.pdsUrl)).issuer;
+      if (newIssuer !== issuer) {
+        this.logger.error("New PDS uses a different authorization server", {
+          did,
+          pdsUrl: resolved.pdsUrl,
+          expectedIssuer: issuer,
+          actualIssuer: newIssuer,
+        });
+        const error = new IssuerMismatchError(issuer, newIssuer);
+        error.handle = handle;
+        error.did = did;
+        throw error;
+      }
+    }
+
+    if (verified === false) {
+      this.logger.warn("Handle verification failed", { did, claimed: resolved.handle });
+    }
+    this.logger.info("Identity changed", {
+      did,
+      previous: change.previous,
+      current: change.current,
+    });
+
+    session.updateIdentity({ handle, pdsUrl: resolved.pdsUrl, handleVerification });
+    if (session.sessionId) {
+      await this.store(session.sessionId, session);
+    }
+
+    this.config.onIdentityChanged?.(session, change);
+    return change;
+  }
+
   /**
    * Sign out a user session by revoking tokens and cleaning up storage.
    *
@@ -705,8 +1144,14 @@ export class OAuthClient {
    * and removes the session from local storage. This ensures proper cleanup
    * and prevents token reuse.
    *
+   * The token is only ever sent to the authorization server that issued it:
+   * the revocation endpoint recorded at sign-in is used when available, and
+   * revocation is skipped if the PDS has since moved to another server.
+   *
    * @param sessionId - Session identifier to remove from storage
    * @param session - Session containing tokens to revoke
+   * @param options - Abort options; `signal` cancels the revocation request.
+   *   The session is removed from storage either way
    *
    * @example
    * ```ts
@@ -714,46 +1159,22 @@ export class OAuthClient {
    * console.log("User signed out successfully");
    * ```
    */
-  async signOut(sessionId: string, session: Session): Promise<void> {
+  async signOut(sessionId: string, session: Session, options: AbortOptions = {}): Promise<void> {
+    const { signal } = options;
     this.logger.info("Signing out session", { sessionId, did: session.did });
+    this.refreshScheduler?.cancel(sessionId);
 
     try {
       // Try to revoke tokens (best effort)
-      const oauthEndpoints = await discoverOAuthEndpointsFromPDS(session.pdsUrl);
-      const revokeEndpoint = oauthEndpoints.revocationEndpoint;
-
-      if (revokeEndpoint) {
-        this.logger.debug("Revoking refresh token", { revokeEndpoint });
-
-        // Revoke refresh token
-        const response = await fetch(revokeEndpoint, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: new URLSearchParams({
-            token: session.refreshToken,
-            client_id: this.clientId,
-          }),
-        });
-
-        if (!response.ok) {
-          this.logger.warn("Token revocation failed", {
-            status: response.status,
-            statusText: response.statusText,
-          });
-        } else {
-          this.logger.debug("Token revocation successful");
-        }
-      } else {
-        this.logger.warn("No revocation endpoint available");
-      }
+      await this.revokeRefreshToken(session.toJSON(), signal);
     } catch (error) {
       // Ignore revocation errors - clean up storage anyway
       this.logger.warn("Token revocation error (continuing with cleanup)", { error });
     } finally {
       // Always clean up storage
       await this.storage.delete(`session:${sessionId}`);
+      await this.updateSessionIndex(session.did, (ids) => ids.filter((id) => id !== sessionId));
+      await this.deleteDPoPKey(dpopKeyReference(session.toJSON()), session.did);
       this.logger.info("Session signed out", { sessionId });
 
       // Emit session deleted event
@@ -761,6 +1182,91 @@ export class OAuthClient {
     }
   }
 
+  /**
+   * Stop background work started by this client.
+   *
+   * Cancels all pending background token refreshes (see the
+   * `backgroundRefresh` config option). Call this when shutting down a
+   * long-lived process so no timers keep it alive.
+   *
+   * @example
+   * ```ts
+   * Deno.addSignalListener("SIGTERM", () => {
+   *   client.dispose();
+   *   Deno.exit();
+   * });
+   * ```
+   */
+  dispose(): void {
+    this.refreshScheduler?.dispose();
+  }
+
+  /**
+   * Build the AT Protocol client metadata document for this client.
+   *
+   * The document is derived from the client configuration so it can't drift
+   * from the `clientId`, `redirectUri` and scope used at runtime. Serve it as
+   * JSON at the `clientId` URL. Confidential clients (configured with a
+   * `keyset`) advertise `private_key_jwt` authentication and a `jwks_uri`.
+   *
+   * @returns Client metadata document
+   * @throws {OAuthError} When a confidential client has no signing key
+   *
+   * @example
+   * ```ts
+   * // GET /client-metadata.json
+   * return Response.json(client.getClientMetadata());
+   * ```
+   */
+  getClientMetadata(): ClientMetadata {
+    const options = this.config.clientMetadata ?? {};
+    const metadata: ClientMetadata = {
+      client_id: this.clientId,
+      application_type: options.applicationType ?? "web",
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      redirect_uris: [this.redirectUri],
+      scope: this.scope,
+      token_endpoint_auth_method: this.clientAuth.isConfidential ? "private_key_jwt" : "none",
+      dpop_bound_access_tokens: true,
+    };
+
+    if (this.clientAuth.isConfidential) {
+      const signingAlgorithm = this.clientAuth.currentAlgorithm;
+      if (!signingAlgorithm) {
+        throw new OAuthError("Confidential client has no signing key for new authorizations");
+      }
+      metadata.token_endpoint_auth_signing_alg = signingAlgorithm;
+      metadata.jwks_uri = options.jwksUri ?? new URL("jwks.json", this.clientId).href;
+    }
+
+    if (options.clientName) metadata.client_name = options.clientName;
+    if (options.clientUri) metadata.client_uri = options.clientUri;
+    if (options.logoUri) metadata.logo_uri = options.logoUri;
+    if (options.tosUri) metadata.tos_uri = options.tosUri;
+    if (options.policyUri) metadata.policy_uri = options.policyUri;
+
+    return metadata;
+  }
+
+  /**
+   * Get the public JWK Set for this client's signing keys.
+   *
+   * Only public key members are included. Public clients (no `keyset`)
+   * return an empty key set. Serve it as JSON at the metadata `jwks_uri`.
+   *
+   * @returns JWK Set with the public signing keys
+   *
+   * @example
+   * ```ts
+   * // GET /jwks.json
+   * return Response.json(client.getJwks());
+   * ```
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    return this.clientAuth.getPublicJwks();
+  }
+
   // Private helper methods
 
   /**
@@ -776,13 +1282,14 @@ export class OAuthClient {
     authServer: string,
     issuer: string,
     knownPdsUrl?: string,
+    signal?: AbortSignal,
   ): Promise<void> {
     try {
       // Get the PDS for this DID (use known PDS if available to save a lookup)
-      const pdsUrl = knownPdsUrl || (await resolveDidDocument(did)).pdsUrl;
+      const pdsUrl = knownPdsUrl || (await this.resolveDid(did, signal)).pdsUrl;
 
       // Discover the expected auth server from the DID's PDS
-      const expectedEndpoints = await discoverOAuthEndpointsFromPDS(pdsUrl);
+      const expectedEndpoints = await this.discover(pdsUrl, signal);
       const expectedIssuer = expectedEndpoints.issuer;
 
       if (expectedIssuer !== issuer) {
@@ -798,6 +1305,7 @@ export class OAuthClient {
       this.logger.debug("Issuer verification passed", { did, issuer });
     } catch (error) {
       if (error instanceof IssuerMismatchError) throw error;
+      signal?.throwIfAborted();
       // Log but don't block on verification failures (network issues etc.)
       // The token exchange already succeeded with PKCE protection
       this.logger.warn("Issuer verification could not be completed", {
@@ -808,17 +1316,83 @@ export class OAuthClient {
   }
 
   /**
-   * Attach a refresh callback to a session for automatic 401 retry.
+   * Read a stored session record, upgrading it to the current schema version
+   * and writing the upgrade back.
+   *
+   * @returns The validated session data, or null when no record exists
+   * @throws {SessionDataCorruptError} When the record is malformed
    */
-  private attachRefreshCallback(session: Session, sessionId: string): void {
+  private async loadSessionData(sessionId: string): Promise<SessionData | null> {
+    const storedData = await this.storage.get<unknown>(`session:${sessionId}`);
+    if (!storedData) return null;
+
+    const { data, migrated } = migrateSessionData(storedData, sessionId);
+    if (migrated) {
+      this.logger.info("Upgrading stored session data", { sessionId, version: data.version });
+      await this.storage.set(`session:${sessionId}`, data);
+    }
+    return data;
+  }
+
+  /**
+   * Attach the client's nonce store, DPoP key provider, identity refresh and a
+   * refresh callback for automatic 401 retry. Refreshed tokens are persisted
+   * under the session's ID once it has been stored.
+   */
+  private attachSession(session: Session, sessionId?: string): void {
+    if (sessionId) session.setSessionId(sessionId);
+    session.setNonceStore(this.nonceStore);
+    session.setDPoPKeyProvider(this.dpopKeyProvider);
+    session.setFetch(this.fetch);
     session.setRefreshCallback(async () => {
       const refreshed = await this.refresh(session);
-      await this.store(sessionId, refreshed);
+      if (refreshed.sessionId) {
+        await this.store(refreshed.sessionId, refreshed);
+      }
     });
+    session.setIdentityCallback(() => this.refreshIdentity(session));
+  }
+
+  /**
+   * Apply a change to a DID's session ID index. Uses the storage's
+   * `compareAndSet()` when available so concurrent updates are not lost.
+   */
+  private async updateSessionIndex(
+    did: string,
+    update: (sessionIds: string[]) => string[],
+  ): Promise<void> {
+    const key = `did-sessions:${did}`;
+
+    for (let attempt = 0; attempt < MAX_INDEX_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.storage.get<string[]>(key);
+      const ids = current ?? [];
+      const next = update(ids);
+      if (next.length === ids.length && next.every((id, i) => id === ids[i])) {
+        return;
+      }
+
+      if (!this.storage.compareAndSet) {
+        await this.storage.set(key, next);
+        return;
+      }
+      if (await this.storage.compareAndSet(key, current, next)) {
+        return;
+      }
+    }
+
+    this.logger.warn("Session index update kept conflicting, giving up", { did });
   }
 
-  private extractAuthServer(authorizationEndpoint: string): string {
-    return authorizationEndpoint.replace(/\/oauth\/authorize$/, "");
+  /**
+   * Release a DPoP key that no session uses any more in the key provider
+   * (best effort): on sign-out, or when a callback fails.
+   */
+  private async deleteDPoPKey(ref: DPoPKeyReference, did?: string): Promise<void> {
+    try {
+      await this.dpopKeyProvider.deleteKey?.(ref);
+    } catch (error) {
+      this.logger.warn("Failed to delete DPoP key", { did, error });
+    }
   }
 
   /**
@@ -850,23 +1424,135 @@ export class OAuthClient {
   /**
    * Best-effort token revocation — fire and forget.
    */
-  private revokeTokenBestEffort(pdsUrl: string, token: string): void {
-    discoverOAuthEndpointsFromPDS(pdsUrl).then((endpoints) => {
-      if (endpoints.revocationEndpoint) {
-        fetch(endpoints.revocationEndpoint, {
-          method: "POST",
-          headers: { "Content-Type": "application/x-www-form-urlencoded" },
-          body: new URLSearchParams({
-            token,
-            client_id: this.clientId,
-          }),
-        }).catch(() => {
-          // Intentionally ignored — best effort
+  private revokeTokenBestEffort(sessionData: SessionData): void {
+    this.revokeRefreshToken(sessionData).catch(() => {
+      // Intentionally ignored — best effort
+    });
+  }
+
+  /**
+   * Revoke a session's refresh token at the authorization server that issued
+   * it. Uses the issuer and revocation endpoint recorded at sign-in; falls
+   * back to discovery for older sessions, and skips revocation when the
+   * discovered issuer differs from the recorded one.
+   */
+  private async revokeRefreshToken(sessionData: SessionData, signal?: AbortSignal): Promise<void> {
+    let { issuer, revocationEndpoint } = sessionData;
+
+    if (!issuer || !revocationEndpoint) {
+      const endpoints = await this.discover(sessionData.pdsUrl, signal);
+      if (issuer && endpoints.issuer !== issuer) {
+        this.logger.warn("Authorization server changed since sign-in, not revoking token", {
+          did: sessionData.did,
+          expectedIssuer: issuer,
+          actualIssuer: endpoints.issuer,
         });
+        return;
       }
-    }).catch(() => {
-      // Intentionally ignored — best effort
+      issuer = endpoints.issuer;
+      revocationEndpoint = endpoints.revocationEndpoint;
+    }
+
+    if (!revocationEndpoint) {
+      this.logger.warn("No revocation endpoint available");
+      return;
+    }
+
+    this.logger.debug("Revoking refresh token", { revocationEndpoint });
+    const body = new URLSearchParams({
+      token: sessionData.refreshToken,
+      ...await this.clientAuth.getParams(issuer, sessionData.clientKeyId),
     });
+    const endpoint = revocationEndpoint;
+    const response = await this.phase("revocation", signal, (fetch) =>
+      fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+      }));
+
+    if (!response.ok) {
+      this.logger.warn("Token revocation failed", {
+        status: response.status,
+        statusText: response.statusText,
+      });
+    } else {
+      this.logger.debug("Token revocation successful");
+    }
+  }
+
+  /**
+   * Run a network phase with its configured timeout. `run` gets a `fetch`
+   * bound to the phase signal, which aborts on timeout or when `signal` does.
+   */
+  private phase<T>(
+    phase: TimeoutPhase,
+    signal: AbortSignal | undefined,
+    run: (fetch: FetchFunction, signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    return withTimeout(
+      phase,
+      this.timeouts[phase],
+      signal,
+      (phaseSignal) => run(fetchWithSignal(this.fetch, phaseSignal), phaseSignal),
+    );
+  }
+
+  /**
+   * Discover OAuth endpoints within the discovery timeout. Metadata requests
+   * are shared with concurrent callers through the discovery cache, so they
+   * are not aborted on one caller's behalf; only the wait is cut short.
+   */
+  private discover(pdsUrl: string, signal?: AbortSignal): Promise<OAuthEndpoints> {
+    return this.phase(
+      "discovery",
+      signal,
+      () => discoverOAuthEndpointsFromPDS(pdsUrl, this.discoveryOptions),
+    );
+  }
+
+  /**
+   * Resolve a DID document within the DID resolution timeout.
+   */
+  private resolveDid(
+    did: string,
+    signal?: AbortSignal,
+  ): Promise<{ pdsUrl: string; handle: string }> {
+    return this.phase("didResolution", signal, (fetch) => resolveDidDocument(did, { fetch }));
+  }
+
+  /**
+   * Verify a claimed handle within the handle resolution timeout.
+   */
+  private verifyHandle(did: string, handle: string, signal?: AbortSignal): Promise<boolean> {
+    return this.phase(
+      "handleResolution",
+      signal,
+      (_fetch, phaseSignal) =>
+        verifyHandle(did, handle, this.handleResolver, { signal: phaseSignal }),
+    );
+  }
+
+  /**
+   * Verify a claimed handle for `refreshIdentity()`. Unlike `verifyHandle()`,
+   * tells a failed lookup (null) apart from a handle that resolves to another
+   * DID (false). Timeouts are still thrown.
+   */
+  private async lookupHandle(did: string, handle: string): Promise<boolean | null> {
+    if (!handle || handle === did || handle === INVALID_HANDLE) return false;
+
+    try {
+      const resolved = await this.phase(
+        "handleResolution",
+        undefined,
+        (_fetch, signal) => this.handleResolver.resolve(handle, { signal }),
+      );
+      return resolved.did === did;
+    } catch (error) {
+      if (error instanceof TimeoutError) throw error;
+      this.logger.warn("Handle lookup failed", { did, handle, error });
+      return null;
+    }
   }
 
   /**
@@ -877,7 +1563,8 @@ export class OAuthClient {
   }
 
   private async pushAuthorizationRequest(
-    authServer: string,
+    metadata: ValidatedAuthServerMetadata,
+    clientKeyId: string | undefined,
     params: {
       codeChallenge: string;
       state: string;
@@ -885,10 +1572,11 @@ export class OAuthClient {
       loginHint?: string;
       prompt?: string;
     },
+    fetchFn: FetchFunction,
   ): Promise<string> {
     const parParams = new URLSearchParams({
+      ...await this.clientAuth.getParams(metadata.issuer, clientKeyId),
       response_type: "code",
-      client_id: this.clientId,
       redirect_uri: this.redirectUri,
       scope: params.scope,
       code_challenge: params.codeChallenge,
@@ -902,9 +1590,16 @@ export class OAuthClient {
       parParams.set("prompt", params.prompt);
     }
 
-    this.logger.debug("Sending Pushed Authorization Request", { authServer });
+    const parEndpoint = metadata.pushed_authorization_request_endpoint;
+    if (!parEndpoint) {
+      throw new OAuthError(
+        `Authorization server ${metadata.issuer} does not advertise a pushed_authorization_request_endpoint`,
+      );
+    }
 
-    const response = await fetch(`${authServer}/oauth/par`, {
+    this.logger.debug("Sending Pushed Authorization Request", { parEndpoint });
+
+    const response = await fetchFn(parEndpoint, {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -919,11 +1614,10 @@ export class OAuthClient {
     }
 
     const result = await response.json();
-    const authParams = new URLSearchParams({
-      client_id: this.clientId,
-      request_uri: result.request_uri,
-    });
+    const authorizationUrl = new URL(metadata.authorization_endpoint);
+    authorizationUrl.searchParams.set("client_id", this.clientId);
+    authorizationUrl.searchParams.set("request_uri", result.request_uri);
 
-    return `${authServer}/oauth/authorize?${authParams}`;
+    return authorizationUrl.href;
   }
 }
@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Caching for OAuth discovery metadata documents
+ * @module
+ */
+
+import type { FetchFunction, OAuthStorage } from "./types.ts";
+import { MemoryStorage } from "./storage.ts";
+
+/**
+ * Options for the discovery metadata cache.
+ */
+export interface DiscoveryCacheOptions {
+  /** Freshness lifetime in seconds when the response has no Cache-Control max-age (default: 300) */
+  defaultTtl?: number;
+
+  /** Upper bound in seconds for the freshness lifetime taken from Cache-Control (default: 86400) */
+  maxTtl?: number;
+
+  /** How long in seconds stale metadata may still be served when the server is unreachable (default: 86400) */
+  maxStale?: number;
+}
+
+/**
+ * Cached metadata document as persisted in storage.
+ * @internal
+ */
+interface DiscoveryCacheEntry {
+  value: unknown;
+  /** Epoch ms until which the entry is fresh */
+  freshUntil: number;
+  /** Epoch ms until which a stale entry is served while revalidating in the background */
+  revalidateUntil: number;
+}
+
+/**
+ * Parsed caching directives from a Cache-Control header.
+ * @internal
+ */
+interface CacheDirectives {
+  noStore: boolean;
+  maxAge?: number;
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Parse the directives relevant for metadata caching from a Cache-Control header.
+ *
+ * @param header - Cache-Control header value (may be null)
+ * @returns Parsed directives
+ * @internal
+ */
+export function parseCacheControl(header: string | null): CacheDirectives {
+  const directives: CacheDirectives = { noStore: false };
+  if (!header) return directives;
+
+  for (const part of header.split(",")) {
+    const [rawName, rawValue] = part.trim().split("=", 2);
+    const name = rawName?.toLowerCase();
+    const value = rawValue !== undefined ? Number.parseInt(rawValue.replace(/"/g, ""), 10) : NaN;
+
+    if (name === "no-store") {
+      directives.noStore = true;
+    } else if (name === "no-cache") {
+      directives.maxAge = 0;
+    } else if (name === "max-age" && Number.isFinite(value) && directives.maxAge !== 0) {
+      directives.maxAge = Math.max(0, value);
+    } else if (name === "stale-while-revalidate" && Number.isFinite(value)) {
+      directives.staleWhileRevalidate = Math.max(0, value);
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Cache for OAuth discovery metadata documents.
+ *
+ * Caches the protected-resource (`/.well-known/oauth-protected-resource`) and
+ * authorization-server (`/.well-known/oauth-authorization-server`) metadata so
+ * refreshes, sign-outs and issuer checks don't rediscover on every call.
+ * Freshness follows the response's `Cache-Control` header. Within a
+ * `stale-while-revalidate` window stale metadata is returned immediately and
+ * refreshed in the background; when the server is unreachable, stale metadata
+ * is served for up to `maxStale` seconds.
+ *
+ * Backed by any {@link OAuthStorage} (in-memory by default), so the cache can
+ * be shared across isolates.
+ *
+ * @example
+ * ```ts
+ * const client = new OAuthClient({
+ *   // ... other config
+ *   discoveryCache: new DiscoveryCache(storage, { defaultTtl: 600 }),
+ * });
+ * ```
+ */
+export class DiscoveryCache {
+  private readonly defaultTtl: number;
+  private readonly maxTtl: number;
+  private readonly maxStale: number;
+
+  /** In-flight fetches by URL, so concurrent callers share one request */
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Create a new discovery cache.
+   *
+   * @param storage - Storage backend for cached documents (defaults to in-memory)
+   * @param options - Cache lifetime options
+   */
+  constructor(
+    private readonly storage: OAuthStorage = new MemoryStorage(),
+    options: DiscoveryCacheOptions = {},
+  ) {
+    this.defaultTtl = options.defaultTtl ?? 300;
+    this.maxTtl = options.maxTtl ?? 86_400;
+    this.maxStale = options.maxStale ?? 86_400;
+  }
+
+  /**
+   * Get a metadata document, from cache when possible.
+   *
+   * The `parse` function validates the raw JSON; only documents that pass
+   * validation are cached.
+   *
+   * @param url - Metadata document URL
+   * @param parse - Validates the raw JSON and returns the typed document
+   * @param fetchFn - `fetch` implementation (optional, defaults to the global `fetch`)
+   * @returns Promise resolving to the parsed document
+   * @throws When the document can't be fetched or parsed and no stale copy is available
+   */
+  async fetch<T>(url: string, parse: (raw: unknown) => T, fetchFn?: FetchFunction): Promise<T> {
+    const key = `discovery:${url}`;
+    const entry = await this.storage.get<DiscoveryCacheEntry>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      return parse(entry.value);
+    }
+
+    if (entry && now < entry.revalidateUntil) {
+      // Serve stale immediately and refresh in the background
+      this.revalidate(url, key, parse, fetchFn).catch(() => {
+        // Intentionally ignored — the stale entry remains usable
+      });
+      return parse(entry.value);
+    }
+
+    try {
+      return await this.revalidate(url, key, parse, fetchFn);
+    } catch (error) {
+      if (entry) {
+        // Server briefly unreachable: fall back to stale metadata
+        return parse(entry.value);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a cached document.
+   *
+   * @param url - Metadata document URL
+   */
+  async invalidate(url: string): Promise<void> {
+    await this.storage.delete(`discovery:${url}`);
+  }
+
+  private revalidate<T>(
+    url: string,
+    key: string,
+    parse: (raw: unknown) => T,
+    fetchFn: FetchFunction = fetch,
+  ): Promise<T> {
+    const existing = this.inFlight.get(url);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const request = (async () => {
+      try {
+        const response = await fetchFn(url, { headers: { "Accept": "application/json" } });
+        if (!response.ok) {
+          throw new Error(`Metadata request failed: ${response.status}`);
+        }
+
+        const raw = await response.json();
+        const parsed = parse(raw);
+
+        const directives = parseCacheControl(response.headers.get("Cache-Control"));
+        if (!directives.noStore) {
+          const ttl = Math.min(directives.maxAge ?? this.defaultTtl, this.maxTtl);
+          const now = Date.now();
+          const entry: DiscoveryCacheEntry = {
+            value: raw,
+            freshUntil: now + ttl * 1000,
+            revalidateUntil: now + (ttl + (directives.staleWhileRevalidate ?? 0)) * 1000,
+          };
+          await this.storage.set(key, entry, { ttl: ttl + this.maxStale });
+        }
+
+        return parsed;
+      } finally {
+        this.inFlight.delete(url);
+      }
+    })();
+
+    this.inFlight.set(url, request);
+    return request;
+  }
+}
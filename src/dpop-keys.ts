@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Pluggable DPoP key providers
+ * @module
+ */
+
+import { exportJWK } from "@panva/jose";
+import { DPoPError } from "./errors.ts";
+import { generateDPoPKeyPair, importPrivateKeyFromJWK } from "./dpop.ts";
+import type { OAuthStorage, SessionData } from "./types.ts";
+
+/**
+ * Produces ES256 signatures for DPoP proofs without exposing the private key.
+ */
+export interface DPoPSigner {
+  /**
+   * Sign data with ECDSA P-256 / SHA-256.
+   *
+   * @param data - JWS signing input
+   * @returns Raw signature in IEEE P1363 (r||s) format, as returned by Web Crypto
+   */
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Reference to a session's DPoP key, as persisted in {@link SessionData}.
+ */
+export interface DPoPKeyReference {
+  /** Public key JWK, embedded in every DPoP proof */
+  publicKeyJWK: JsonWebKey;
+
+  /** Private key JWK, only for providers that keep key material in the session */
+  privateKeyJWK?: JsonWebKey;
+
+  /** Provider-specific key identifier for keys held outside the session store */
+  keyId?: string;
+}
+
+/**
+ * Creates DPoP keys for new sessions and signs with them.
+ *
+ * Sessions only persist the {@link DPoPKeyReference} returned by
+ * `generateKey()`; every proof is signed through `getSigner()`. Implement
+ * this interface to keep private keys out of the session store, e.g. in an
+ * HSM, a KMS, or as non-extractable browser keys.
+ *
+ * @example External signer
+ * ```ts
+ * const kmsKeyProvider: DPoPKeyProvider = {
+ *   async generateKey() {
+ *     const { keyId, publicKeyJWK } = await kms.createKey("ECC_NIST_P256");
+ *     return { keyId, publicKeyJWK };
+ *   },
+ *   getSigner(ref) {
+ *     return Promise.resolve({ sign: (data) => kms.sign(ref.keyId!, data) });
+ *   },
+ *   deleteKey(ref) {
+ *     return kms.scheduleKeyDeletion(ref.keyId!);
+ *   },
+ * };
+ * ```
+ */
+export interface DPoPKeyProvider {
+  /**
+   * Create a new key pair for a session.
+   *
+   * @returns Reference to persist with the session
+   */
+  generateKey(): Promise<DPoPKeyReference>;
+
+  /**
+   * Get the signing key for a reference.
+   *
+   * @param ref - Reference returned by `generateKey()`
+   * @returns A private `CryptoKey` or a {@link DPoPSigner}
+   */
+  getSigner(ref: DPoPKeyReference): Promise<CryptoKey | DPoPSigner>;
+
+  /**
+   * Release a key that is no longer used (optional). Called on sign-out,
+   * and when a callback fails after the key was created.
+   *
+   * @param ref - Reference returned by `generateKey()`
+   */
+  deleteKey?(ref: DPoPKeyReference): Promise<void>;
+}
+
+/**
+ * Build the DPoP key reference stored in session data.
+ * @internal
+ */
+export function dpopKeyReference(data: SessionData): DPoPKeyReference {
+  return {
+    publicKeyJWK: data.dpopPublicKeyJWK,
+    ...(data.dpopPrivateKeyJWK ? { privateKeyJWK: data.dpopPrivateKeyJWK } : {}),
+    ...(data.dpopKeyId ? { keyId: data.dpopKeyId } : {}),
+  };
+}
+
+/**
+ * Default key provider: stores the private key as a JWK in the session.
+ *
+ * Sessions stay self-contained and portable across processes, at the cost of
+ * private key material living in the session store (consider
+ * `EncryptedStorage`).
+ */
+export class JwkDPoPKeyProvider implements DPoPKeyProvider {
+  async generateKey(): Promise<DPoPKeyReference> {
+    const keyPair = await generateDPoPKeyPair();
+    return { publicKeyJWK: keyPair.publicKeyJWK, privateKeyJWK: keyPair.privateKeyJWK };
+  }
+
+  async getSigner(ref: DPoPKeyReference): Promise<CryptoKey> {
+    if (!ref.privateKeyJWK) {
+      throw new DPoPError("Session has no DPoP private key JWK");
+    }
+    return await importPrivateKeyFromJWK(ref.privateKeyJWK);
+  }
+}
+
+/**
+ * Options for {@link CryptoKeyDPoPKeyProvider}.
+ */
+export interface CryptoKeyDPoPKeyProviderOptions {
+  /** Storage key prefix (default: "dpop-key:") */
+  prefix?: string;
+}
+
+/**
+ * Key provider that keeps non-extractable `CryptoKey`s out of session data.
+ *
+ * The private key is generated as non-extractable and stored as a
+ * `CryptoKey` object under a random key ID; sessions only hold the ID and
+ * the public JWK. The storage must keep `CryptoKey` objects intact, e.g. an
+ * IndexedDB-backed {@link OAuthStorage} in browsers (structured clone) or
+ * `MemoryStorage` for a single process. JSON-serializing backends such as
+ * `SQLiteStorage` cannot hold these keys.
+ *
+ * @example
+ * ```ts
+ * const client = new OAuthClient({
+ *   // ... other config
+ *   dpopKeyProvider: new CryptoKeyDPoPKeyProvider(indexedDbStorage),
+ * });
+ * ```
+ */
+export class CryptoKeyDPoPKeyProvider implements DPoPKeyProvider {
+  private readonly prefix: string;
+
+  /**
+   * Create a new CryptoKey-backed key provider.
+   *
+   * @param storage - Storage that can hold `CryptoKey` objects
+   * @param options - Key prefix options
+   */
+  constructor(
+    private readonly storage: OAuthStorage,
+    options: CryptoKeyDPoPKeyProviderOptions = {},
+  ) {
+    this.prefix = options.prefix ?? "dpop-key:";
+  }
+
+  async generateKey(): Promise<DPoPKeyReference> {
+    try {
+      const keyPair = await crypto.subtle.generateKey(
+        { name: "ECDSA", namedCurve: "P-256" },
+        false, // private key is not extractable
+        ["sign", "verify"],
+      );
+      const publicKeyJWK = await exportJWK(keyPair.publicKey);
+      const keyId = crypto.randomUUID();
+
+      await this.storage.set(`${this.prefix}${keyId}`, keyPair.privateKey);
+      return { keyId, publicKeyJWK };
+    } catch (error) {
+      throw new DPoPError("Failed to generate DPoP key pair", error as Error);
+    }
+  }
+
+  async getSigner(ref: DPoPKeyReference): Promise<CryptoKey> {
+    const key = ref.keyId ? await this.storage.get<CryptoKey>(`${this.prefix}${ref.keyId}`) : null;
+    if (!(key instanceof CryptoKey)) {
+      throw new DPoPError(`DPoP key not found: ${ref.keyId ?? "(no key ID)"}`);
+    }
+    return key;
+  }
+
+  async deleteKey(ref: DPoPKeyReference): Promise<void> {
+    if (ref.keyId) {
+      await this.storage.delete(`${this.prefix}${ref.keyId}`);
+    }
+  }
+}
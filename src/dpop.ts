@@ -3,22 +3,60 @@
  * Uses Web Crypto API for Deno compatibility
  */
 
-import { exportJWK, SignJWT } from "@panva/jose";
+import { base64url, exportJWK } from "@panva/jose";
 import { DPoPError } from "./errors.ts";
+import type { NonceStore } from "./nonce-store.ts";
+import type { DPoPSigner } from "./dpop-keys.ts";
+import type { FetchFunction } from "./types.ts";
 
-/** Module-level nonce cache: maps origin to latest DPoP nonce */
-const nonceCache = new Map<string, string>();
+/**
+ * Key used to sign DPoP proofs: a private ECDSA P-256 `CryptoKey` or a signer
+ * that produces ES256 signatures (e.g., a key held outside the process).
+ */
+export type DPoPSigningKey = CryptoKey | DPoPSigner;
 
-/** Get cached nonce for a URL's origin */
-export function getCachedNonce(url: string): string | undefined {
-  return nonceCache.get(new URL(url).origin);
+/**
+ * Produce a raw ES256 (IEEE P1363 r||s) signature.
+ */
+async function signES256(key: DPoPSigningKey, data: Uint8Array): Promise<Uint8Array> {
+  if (key instanceof CryptoKey) {
+    const signature = await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      new Uint8Array(data),
+    );
+    return new Uint8Array(signature);
+  }
+  return await key.sign(data);
 }
 
-/** Update nonce cache from a response's DPoP-Nonce header */
-export function updateNonceCache(url: string, response: Response): void {
+/**
+ * Get the stored nonce for a URL's origin.
+ *
+ * Best effort: a failing store is treated as a cache miss, which only costs
+ * a nonce challenge round trip.
+ */
+export async function getCachedNonce(store: NonceStore, url: string): Promise<string | undefined> {
+  try {
+    return await store.get(new URL(url).origin);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Store the nonce from a response's DPoP-Nonce header (best effort) */
+export async function updateNonceCache(
+  store: NonceStore,
+  url: string,
+  response: Response,
+): Promise<void> {
   const nonce = response.headers.get("DPoP-Nonce");
   if (nonce) {
-    nonceCache.set(new URL(url).origin, nonce);
+    try {
+      await store.set(new URL(url).origin, nonce);
+    } catch {
+      // Intentionally ignored — the nonce is re-issued on the next challenge
+    }
   }
 }
 
@@ -64,7 +102,7 @@ export async function generateDPoPKeyPair(): Promise<DPoPKeyPair> {
 export async function generateDPoPProof(
   method: string,
   url: string,
-  privateKey: CryptoKey,
+  privateKey: DPoPSigningKey,
   publicKeyJWK: JsonWebKey,
   accessToken?: string,
   nonce?: string,
@@ -97,16 +135,14 @@ export async function generateDPoPProof(
       payload.nonce = nonce;
     }
 
-    // Sign JWT using Web Crypto
-    const dpopProof = await new SignJWT(payload)
-      .setProtectedHeader({
-        typ: "dpop+jwt",
-        alg: "ES256",
-        jwk: publicKeyJWK,
-      })
-      .sign(privateKey);
+    // Sign compact JWS (works for CryptoKeys and external signers alike)
+    const header = { typ: "dpop+jwt", alg: "ES256", jwk: publicKeyJWK };
+    const signingInput = `${base64url.encode(JSON.stringify(header))}.${
+      base64url.encode(JSON.stringify(payload))
+    }`;
+    const signature = await signES256(privateKey, new TextEncoder().encode(signingInput));
 
-    return dpopProof;
+    return `${signingInput}.${base64url.encode(signature)}`;
   } catch (error) {
     throw new DPoPError("Failed to generate DPoP proof", error as Error);
   }
@@ -155,20 +191,54 @@ export async function importPrivateKeyFromJWK(
 }
 
 /**
- * Make authenticated DPoP request with automatic nonce handling
+ * Make a request body safe to send more than once.
+ *
+ * Streams can only be consumed once, so they are buffered into bytes; every
+ * other `BodyInit` (string, bytes, Blob, FormData, URLSearchParams) is
+ * re-readable by fetch and returned unchanged. Needed because nonce
+ * challenges and 401 refreshes replay the request.
+ */
+export async function bufferRequestBody(
+  body: BodyInit | null | undefined,
+): Promise<Exclude<BodyInit, ReadableStream> | undefined> {
+  if (body == null) return undefined;
+  if (body instanceof ReadableStream) {
+    return new Uint8Array(await new Response(body).arrayBuffer());
+  }
+  return body as Exclude<BodyInit, ReadableStream>;
+}
+
+/**
+ * Make authenticated DPoP request with automatic nonce handling.
+ *
+ * All `RequestInit` fields (`signal`, `redirect`, `cache`, ...) are passed
+ * through to fetch; `method` is taken from the first argument. An aborted
+ * signal rejects with the signal's reason, also between the nonce challenge
+ * and the retry.
+ *
+ * The Content-Type header is left to the caller (or to fetch, which derives
+ * it for Blob, FormData and URLSearchParams bodies). String bodies without an
+ * explicit Content-Type are sent as `application/json`.
+ *
+ * Requests go through `fetchFn` (default: the global `fetch`).
  */
 export async function makeDPoPRequest(
   method: string,
   url: string,
   accessToken: string,
-  privateKey: CryptoKey,
+  privateKey: DPoPSigningKey,
   publicKeyJWK: JsonWebKey,
-  body?: string,
-  headers: HeadersInit = {},
+  nonceStore: NonceStore,
+  init: RequestInit = {},
+  fetchFn: FetchFunction = fetch,
 ): Promise<Response> {
+  const { body, headers, ...rest } = init;
+
   try {
-    // Check nonce cache for this origin
-    const cachedNonce = getCachedNonce(url);
+    const requestBody = await bufferRequestBody(body);
+
+    // Check nonce store for this origin
+    const cachedNonce = await getCachedNonce(nonceStore, url);
 
     // Generate initial DPoP proof (with cached nonce if available)
     let dpopProof = await generateDPoPProof(
@@ -180,30 +250,33 @@ export async function makeDPoPRequest(
       cachedNonce,
     );
 
-    const requestHeaders: HeadersInit = {
-      "Authorization": `DPoP ${accessToken}`,
-      "DPoP": dpopProof,
-      "Content-Type": "application/json",
-      ...headers,
-    };
+    const requestHeaders = new Headers(headers);
+    requestHeaders.set("Authorization", `DPoP ${accessToken}`);
+    requestHeaders.set("DPoP", dpopProof);
+    if (typeof requestBody === "string" && !requestHeaders.has("Content-Type")) {
+      requestHeaders.set("Content-Type", "application/json");
+    }
 
     const fetchOptions: RequestInit = {
+      ...rest,
       method,
       headers: requestHeaders,
     };
-    if (body) {
-      fetchOptions.body = body;
+    if (requestBody !== undefined) {
+      fetchOptions.body = requestBody;
     }
 
-    let response = await fetch(url, fetchOptions);
+    let response = await fetchFn(url, fetchOptions);
 
-    // Always update nonce cache from response
-    updateNonceCache(url, response);
+    // Always update nonce store from response
+    await updateNonceCache(nonceStore, url, response);
 
     // Handle DPoP nonce challenge
     if (response.status === 401) {
       const dpopNonce = response.headers.get("DPoP-Nonce");
       if (dpopNonce) {
+        init.signal?.throwIfAborted();
+
         // Generate new proof with nonce
         dpopProof = await generateDPoPProof(
           method,
@@ -214,23 +287,17 @@ export async function makeDPoPRequest(
           dpopNonce,
         );
 
-        (requestHeaders as Record<string, string>)["DPoP"] = dpopProof;
+        requestHeaders.set("DPoP", dpopProof);
 
-        const retryOptions: RequestInit = {
-          method,
-          headers: requestHeaders,
-        };
-        if (body) {
-          retryOptions.body = body;
-        }
-
-        response = await fetch(url, retryOptions);
-        updateNonceCache(url, response);
+        response = await fetchFn(url, fetchOptions);
+        await updateNonceCache(nonceStore, url, response);
       }
     }
 
     return response;
   } catch (error) {
+    // Surface cancellation the way fetch does
+    if (init.signal?.aborted) throw init.signal.reason;
     throw new DPoPError("Failed to make DPoP request", error as Error);
   }
 }
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Encrypted-at-rest storage decorator for session secrets
+ * @module
+ */
+
+import { base64url } from "@panva/jose";
+import { OAuthError, StorageIntegrityError } from "./errors.ts";
+import type { OAuthStorage } from "./types.ts";
+
+/** Content encryption algorithm recorded in every envelope */
+const ENVELOPE_ALG = "A256GCM";
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+/**
+ * AES-256-GCM key used by {@link EncryptedStorage}.
+ */
+export interface EncryptionKey {
+  /** Key identifier recorded with each encrypted value, used to pick the key on read */
+  id: string;
+
+  /** 32 raw key bytes, or an AES-GCM `CryptoKey` with encrypt and decrypt usages */
+  key: Uint8Array | CryptoKey;
+}
+
+/**
+ * Options for {@link EncryptedStorage}.
+ */
+export interface EncryptedStorageOptions {
+  /**
+   * Encryption keys. New values are encrypted with the first key (or
+   * `currentKeyId`); the others are only used to decrypt existing values.
+   */
+  keys: EncryptionKey[];
+
+  /** Key ID used to encrypt new values (defaults to the first key) */
+  currentKeyId?: string;
+
+  /**
+   * Return values that were stored before encryption was enabled as-is
+   * instead of rejecting them (default: false). They are encrypted the next
+   * time they are written.
+   */
+  allowPlaintext?: boolean;
+}
+
+/**
+ * Encrypted value as persisted in the underlying storage.
+ * @internal
+ */
+interface EncryptedEnvelope {
+  alg: typeof ENVELOPE_ALG;
+  kid: string;
+  iv: string;
+  ct: string;
+}
+
+function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (typeof value !== "object" || value === null) return false;
+  const envelope = value as Record<string, unknown>;
+  return envelope.alg === ENVELOPE_ALG && typeof envelope.kid === "string" &&
+    typeof envelope.iv === "string" && typeof envelope.ct === "string";
+}
+
+/**
+ * Storage decorator that encrypts values at rest with AES-256-GCM.
+ *
+ * Wraps any {@link OAuthStorage} so that session data — including DPoP
+ * private keys, access tokens and refresh tokens — never reaches the
+ * underlying backend in plaintext. Each value is encrypted with a fresh IV
+ * and bound to its storage key, so values that are modified, truncated or
+ * moved to a different key fail to decrypt with a {@link StorageIntegrityError}.
+ *
+ * Key rotation: put the new key first and keep the old keys in the list.
+ * Values encrypted with an old key are still readable and are re-encrypted
+ * with the current key the next time they are written.
+ *
+ * The optional `getAndDelete`, `compareAndSet` and `list` methods are
+ * available when the underlying storage implements them. Keys are not
+ * encrypted, so `list` passes through unchanged.
+ *
+ * @example
+ * ```ts
+ * import { decodeBase64 } from "@std/encoding/base64";
+ *
+ * const storage = new EncryptedStorage(new SQLiteStorage(sqlite), {
+ *   keys: [
+ *     { id: "2026-10", key: decodeBase64(Deno.env.get("STORAGE_KEY")!) },
+ *     { id: "2026-01", key: decodeBase64(Deno.env.get("STORAGE_KEY_OLD")!) },
+ *   ],
+ * });
+ *
+ * const client = new OAuthClient({ clientId, redirectUri, storage });
+ * ```
+ */
+export class EncryptedStorage implements OAuthStorage {
+  readonly getAndDelete?: <T = unknown>(key: string) => Promise<T | null>;
+  readonly compareAndSet?: <T = unknown>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: { ttl?: number },
+  ) => Promise<boolean>;
+  readonly list?: (prefix: string) => Promise<string[]>;
+  private readonly keys = new Map<string, Uint8Array | CryptoKey>();
+  private readonly importedKeys = new Map<string, Promise<CryptoKey>>();
+  private readonly currentKeyId: string;
+  private readonly allowPlaintext: boolean;
+
+  /**
+   * Create a new encrypted storage wrapper.
+   *
+   * @param storage - Underlying storage backend
+   * @param options - Encryption keys and options
+   * @throws {OAuthError} When no keys are given, key IDs repeat, a raw key is
+   *   not 32 bytes, or `currentKeyId` is unknown
+   */
+  constructor(private readonly storage: OAuthStorage, options: EncryptedStorageOptions) {
+    for (const { id, key } of options.keys) {
+      if (this.keys.has(id)) {
+        throw new OAuthError(`Duplicate encryption key ID: ${id}`);
+      }
+      if (key instanceof Uint8Array && key.length !== 32) {
+        throw new OAuthError(`Encryption key "${id}" must be 32 bytes for AES-256-GCM`);
+      }
+      this.keys.set(id, key);
+    }
+
+    const currentKeyId = options.currentKeyId ?? options.keys[0]?.id;
+    if (currentKeyId === undefined) {
+      throw new OAuthError("EncryptedStorage requires at least one key");
+    }
+    if (!this.keys.has(currentKeyId)) {
+      throw new OAuthError(`Encryption key not found: ${currentKeyId}`);
+    }
+    this.currentKeyId = currentKeyId;
+    this.allowPlaintext = options.allowPlaintext ?? false;
+
+    if (storage.getAndDelete) {
+      this.getAndDelete = async <T>(key: string) =>
+        this.decrypt<T>(key, await storage.getAndDelete!(key));
+    }
+    if (storage.compareAndSet) {
+      this.compareAndSet = <T>(
+        key: string,
+        expected: T | null,
+        value: T,
+        options?: { ttl?: number },
+      ) => this.compareAndSetEncrypted(key, expected, value, options);
+    }
+    if (storage.list) {
+      this.list = (prefix: string) => storage.list!(prefix);
+    }
+  }
+
+  /**
+   * Generate a random 256-bit key suitable for {@link EncryptionKey.key}.
+   *
+   * @returns 32 random bytes
+   */
+  static generateKey(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(32));
+  }
+
+  /**
+   * Retrieve and decrypt a value.
+   *
+   * @throws {StorageIntegrityError} When the value was tampered with, was
+   *   encrypted with an unknown key, or is plaintext and `allowPlaintext` is off
+   */
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return await this.decrypt<T>(key, await this.storage.get(key));
+  }
+
+  /**
+   * Encrypt a value with the current key and store it.
+   */
+  async set<T = unknown>(key: string, value: T, options?: { ttl?: number }): Promise<void> {
+    await this.storage.set(key, await this.encrypt(key, value), options);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  /**
+   * Compare against the decrypted current value, then swap the stored
+   * envelope atomically so a concurrent write still makes the update fail.
+   */
+  private async compareAndSetEncrypted<T>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: { ttl?: number },
+  ): Promise<boolean> {
+    const stored = await this.storage.get(key);
+    const current = await this.decrypt<T>(key, stored);
+    if (JSON.stringify(current) !== JSON.stringify(expected)) return false;
+
+    return await this.storage.compareAndSet!(
+      key,
+      stored ?? null,
+      await this.encrypt(key, value),
+      options,
+    );
+  }
+
+  private async decrypt<T>(key: string, stored: unknown): Promise<T | null> {
+    if (stored === null || stored === undefined) return null;
+
+    if (!isEnvelope(stored)) {
+      if (this.allowPlaintext) return stored as T;
+      throw new StorageIntegrityError(key, "value is not encrypted");
+    }
+
+    if (!this.keys.has(stored.kid)) {
+      throw new StorageIntegrityError(key, `unknown encryption key ID "${stored.kid}"`);
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: new Uint8Array(base64url.decode(stored.iv)),
+          additionalData: new TextEncoder().encode(key),
+        },
+        await this.importKey(stored.kid),
+        new Uint8Array(base64url.decode(stored.ct)),
+      );
+    } catch (error) {
+      throw new StorageIntegrityError(key, "decryption failed", error as Error);
+    }
+
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  }
+
+  private async encrypt(key: string, value: unknown): Promise<EncryptedEnvelope> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(key) },
+      await this.importKey(this.currentKeyId),
+      new TextEncoder().encode(JSON.stringify(value)),
+    );
+
+    return {
+      alg: ENVELOPE_ALG,
+      kid: this.currentKeyId,
+      iv: base64url.encode(iv),
+      ct: base64url.encode(new Uint8Array(ciphertext)),
+    };
+  }
+
+  private importKey(kid: string): Promise<CryptoKey> {
+    let imported = this.importedKeys.get(kid);
+    if (!imported) {
+      const key = this.keys.get(kid)!;
+      imported = key instanceof Uint8Array
+        ? crypto.subtle.importKey("raw", new Uint8Array(key), "AES-GCM", false, [
+          "encrypt",
+          "decrypt",
+        ])
+        : Promise.resolve(key);
+      this.importedKeys.set(kid, imported);
+    }
+    return imported;
+  }
+}
@@ -3,6 +3,8 @@
  * @module
  */
 
+import type { TimeoutPhase } from "./types.ts";
+
 /**
  * Base OAuth error class for all OAuth-related errors.
  *
@@ -132,6 +134,35 @@ export class PDSDiscoveryError extends OAuthError {
   }
 }
 
+/**
+ * Thrown when a DID uses a method this client cannot resolve.
+ *
+ * AT Protocol identities use `did:plc` or hostname-level `did:web`. Any other
+ * DID method (or a path-based `did:web`) cannot be resolved to a DID document.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await resolveDidDocument("did:key:z6Mk...");
+ * } catch (error) {
+ *   if (error instanceof UnsupportedDidMethodError) {
+ *     console.log("Unsupported DID:", error.did);
+ *   }
+ * }
+ * ```
+ */
+export class UnsupportedDidMethodError extends OAuthError {
+  /**
+   * Create a new unsupported DID method error.
+   *
+   * @param did - The DID that could not be resolved
+   */
+  constructor(public readonly did: string) {
+    super(`Unsupported DID method: ${did}. Only did:plc and did:web are supported.`);
+    this.name = "UnsupportedDidMethodError";
+  }
+}
+
 /**
  * Thrown when the authentication server cannot be discovered from a PDS.
  *
@@ -454,6 +485,48 @@ export class NetworkError extends OAuthError {
   }
 }
 
+/** Human-readable names of the timed phases, for error messages */
+const TIMEOUT_PHASE_NAMES: Record<TimeoutPhase, string> = {
+  handleResolution: "handle resolution",
+  didResolution: "DID document resolution",
+  discovery: "OAuth metadata discovery",
+  par: "pushed authorization request",
+  tokenExchange: "authorization code exchange",
+  refresh: "token refresh",
+  revocation: "token revocation",
+};
+
+/**
+ * Thrown when a network phase of the OAuth flow exceeds its timeout.
+ *
+ * Timeouts are configured per phase with the `timeouts` client option. As a
+ * {@link NetworkError}, a timeout is treated as transient: a refresh that
+ * times out does not invalidate the session.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.authorize("alice.bsky.social");
+ * } catch (error) {
+ *   if (error instanceof TimeoutError && error.phase === "handleResolution") {
+ *     console.log("Handle lookup is slow, please try again");
+ *   }
+ * }
+ * ```
+ */
+export class TimeoutError extends NetworkError {
+  /**
+   * Create a new timeout error.
+   *
+   * @param phase - Phase that did not complete in time
+   * @param timeoutMs - Timeout that was exceeded, in milliseconds
+   */
+  constructor(public readonly phase: TimeoutPhase, public readonly timeoutMs: number) {
+    super(`${TIMEOUT_PHASE_NAMES[phase]} timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
 /**
  * Thrown when authorization server metadata fails validation.
  *
@@ -503,3 +576,121 @@ export class TokenValidationError extends TokenExchangeError {
     this.name = "TokenValidationError";
   }
 }
+
+/**
+ * Thrown when an XRPC call returns a non-2xx response.
+ *
+ * Carries the lexicon `error` name and `message` from the response body, so
+ * callers can branch on specific XRPC errors such as "RecordNotFound".
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await session.xrpc.query("com.atproto.repo.getRecord", { repo, collection, rkey });
+ * } catch (error) {
+ *   if (error instanceof XRPCError && error.error === "RecordNotFound") {
+ *     console.log("Record does not exist");
+ *   }
+ * }
+ * ```
+ */
+export class XRPCError extends OAuthError {
+  /** Lexicon error message from the response body, if any */
+  public readonly errorMessage?: string;
+
+  /**
+   * Create a new XRPC error.
+   *
+   * @param nsid - Lexicon method NSID that was called
+   * @param status - HTTP status code of the response
+   * @param error - Lexicon error name (e.g., "InvalidRequest")
+   * @param errorMessage - Lexicon error message from the response body
+   */
+  constructor(
+    public readonly nsid: string,
+    public readonly status: number,
+    public readonly error: string,
+    errorMessage?: string,
+  ) {
+    super(
+      `XRPC ${nsid} failed with status ${status}: ${error}` +
+        (errorMessage ? ` - ${errorMessage}` : ""),
+    );
+    this.name = "XRPCError";
+    if (errorMessage) {
+      this.errorMessage = errorMessage;
+    }
+  }
+}
+
+/**
+ * Thrown when stored session data is malformed or has an unsupported schema version.
+ *
+ * Raised when a session is loaded (`restore()`, `Session.fromJSON()`) and the
+ * record fails validation, instead of failing later while signing a request.
+ * The session cannot be used; ask the user to sign in again.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const session = await client.restore(sessionId);
+ * } catch (error) {
+ *   if (error instanceof SessionDataCorruptError) {
+ *     console.warn("Discarding unreadable session:", error.reason);
+ *     await storage.delete(`session:${sessionId}`);
+ *   }
+ * }
+ * ```
+ */
+export class SessionDataCorruptError extends SessionError {
+  /**
+   * Create a new corrupt session data error.
+   *
+   * @param reason - What is wrong with the stored data
+   * @param sessionId - Session ID of the record, if known
+   * @param cause - Optional underlying error (e.g., from a failed migration)
+   */
+  constructor(
+    public readonly reason: string,
+    public readonly sessionId?: string,
+    cause?: Error,
+  ) {
+    super(
+      `Corrupt session data${sessionId ? ` for "${sessionId}"` : ""}: ${reason}`,
+      cause,
+    );
+    this.name = "SessionDataCorruptError";
+  }
+}
+
+/**
+ * Thrown when an encrypted storage value fails its integrity check.
+ *
+ * Raised by `EncryptedStorage` when a stored value was modified, moved to a
+ * different key, encrypted with an unknown key, or is unexpectedly plaintext.
+ * The value must not be trusted; treat the session as lost.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const session = await client.restore(sessionId);
+ * } catch (error) {
+ *   if (error instanceof SessionError && error.cause instanceof StorageIntegrityError) {
+ *     console.warn("Stored session failed integrity check:", error.cause.storageKey);
+ *   }
+ * }
+ * ```
+ */
+export class StorageIntegrityError extends OAuthError {
+  /**
+   * Create a new storage integrity error.
+   *
+   * @param storageKey - Storage key of the value that failed the check
+   * @param reason - Why the check failed
+   * @param cause - Optional underlying decryption error
+   */
+  constructor(public readonly storageKey: string, reason: string, cause?: Error) {
+    super(`Storage integrity check failed for "${storageKey}": ${reason}`, cause);
+    this.name = "StorageIntegrityError";
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Loopback (localhost) development client support
+ * @module
+ */
+
+import { OAuthError } from "./errors.ts";
+import { formatScopePermission, parseScope } from "./scope.ts";
+
+/** Loopback client ID origin defined by the AT Protocol OAuth spec */
+const LOOPBACK_CLIENT_ORIGIN = "http://localhost";
+
+/** Loopback IP hosts allowed in loopback redirect URIs */
+const LOOPBACK_HOSTS = ["127.0.0.1", "[::1]"];
+
+/** Scope of a loopback client ID without a `scope` query parameter */
+const LOOPBACK_DEFAULT_SCOPE = "atproto";
+
+/**
+ * Check whether a client ID is an AT Protocol loopback development client ID.
+ *
+ * @param clientId - OAuth client ID
+ * @returns True when the client ID is `http://localhost` (with optional query)
+ */
+export function isLoopbackClientId(clientId: string): boolean {
+  try {
+    const url = new URL(clientId);
+    return url.origin === LOOPBACK_CLIENT_ORIGIN && url.port === "" &&
+      (url.pathname === "/" || url.pathname === "");
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a redirect URI for a loopback development client.
+ *
+ * Loopback redirect URIs must use plain `http` on a loopback IP address
+ * (`127.0.0.1` or `[::1]`); the `localhost` hostname is not allowed.
+ *
+ * @param redirectUri - Redirect URI to validate
+ * @throws {OAuthError} When the redirect URI is not a loopback IP URL
+ */
+export function validateLoopbackRedirectUri(redirectUri: string): void {
+  let url: URL;
+  try {
+    url = new URL(redirectUri);
+  } catch {
+    throw new OAuthError(`Invalid loopback redirect URI: ${redirectUri}`);
+  }
+
+  if (url.protocol !== "http:" || !LOOPBACK_HOSTS.includes(url.hostname)) {
+    throw new OAuthError(
+      `Loopback redirect URI must use http://127.0.0.1 or http://[::1], got ${redirectUri}`,
+    );
+  }
+}
+
+/**
+ * Build a spec-compliant loopback client ID.
+ *
+ * The client ID is `http://localhost` with the `redirect_uri` and `scope`
+ * encoded as query parameters. Authorization servers derive the client
+ * metadata from these parameters, so no hosted metadata document is needed.
+ *
+ * @param redirectUri - Loopback redirect URI (e.g., "http://127.0.0.1:8080/callback")
+ * @param scope - OAuth scope requested by the client
+ * @returns Loopback client ID
+ * @throws {OAuthError} When the redirect URI is not a loopback IP URL
+ * @see https://atproto.com/specs/oauth#localhost-client-development
+ *
+ * @example
+ * ```ts
+ * buildLoopbackClientId("http://127.0.0.1:8080/callback", "atproto");
+ * // "http://localhost?redirect_uri=http%3A%2F%2F127.0.0.1%3A8080%2Fcallback&scope=atproto"
+ * ```
+ */
+export function buildLoopbackClientId(redirectUri: string, scope: string): string {
+  validateLoopbackRedirectUri(redirectUri);
+  const params = new URLSearchParams({ redirect_uri: redirectUri, scope });
+  return `${LOOPBACK_CLIENT_ORIGIN}?${params}`;
+}
+
+/**
+ * Validate a scope requested by a loopback development client.
+ *
+ * Authorization servers derive a loopback client's metadata from its client
+ * ID, so a request may only ask for permissions listed in the client ID's
+ * `scope` parameter (`atproto` when absent); anything else fails at PAR.
+ *
+ * @param clientId - Loopback client ID
+ * @param scope - Requested scope
+ * @throws {OAuthError} When the scope asks for permissions the client ID does not list
+ */
+export function validateLoopbackScope(clientId: string, scope: string): void {
+  const clientScope = new URL(clientId).searchParams.get("scope") ?? LOOPBACK_DEFAULT_SCOPE;
+  const allowed = new Set(parseScope(clientScope).map(formatScopePermission));
+  const missing = parseScope(scope).map(formatScopePermission).filter((p) => !allowed.has(p));
+  if (missing.length > 0) {
+    throw new OAuthError(
+      `Scope not covered by the loopback client ID's scope "${clientScope}": ${missing.join(" ")}`,
+    );
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview DPoP nonce stores for caching server-issued nonces per origin
+ * @module
+ */
+
+import type { OAuthStorage } from "./types.ts";
+
+/**
+ * Store for the latest DPoP nonce issued by each server origin.
+ *
+ * Authorization servers and PDSes return a `DPoP-Nonce` header that must be
+ * included in subsequent DPoP proofs. Remembering it avoids an extra
+ * round trip (a `use_dpop_nonce` challenge) on every request.
+ *
+ * @example Custom implementation
+ * ```ts
+ * class RedisNonceStore implements NonceStore {
+ *   async get(origin: string) {
+ *     return (await redis.get(`nonce:${origin}`)) ?? undefined;
+ *   }
+ *   async set(origin: string, nonce: string) {
+ *     await redis.set(`nonce:${origin}`, nonce, { ex: 180 });
+ *   }
+ * }
+ * ```
+ */
+export interface NonceStore {
+  /**
+   * Get the latest nonce for an origin.
+   *
+   * @param origin - Server origin (e.g., "https://bsky.social")
+   * @returns Promise resolving to the nonce, or undefined if none is known
+   */
+  get(origin: string): Promise<string | undefined>;
+
+  /**
+   * Remember the latest nonce for an origin.
+   *
+   * @param origin - Server origin
+   * @param nonce - Nonce from the `DPoP-Nonce` response header
+   */
+  set(origin: string, nonce: string): Promise<void>;
+}
+
+/**
+ * Options for {@link MemoryNonceStore}.
+ */
+export interface MemoryNonceStoreOptions {
+  /** Maximum number of origins to remember (default: 1000) */
+  maxEntries?: number;
+
+  /** How long a nonce is reused, in seconds (default: 180) */
+  ttl?: number;
+}
+
+/**
+ * In-memory nonce store with least-recently-used eviction and expiry.
+ *
+ * This is the default nonce store; each `OAuthClient` gets its own instance.
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly entries = new Map<string, { nonce: string; expiresAt: number }>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+
+  /**
+   * Create a new in-memory nonce store.
+   *
+   * @param options - Capacity and expiry options
+   */
+  constructor(options: MemoryNonceStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttl = options.ttl ?? 180;
+  }
+
+  /**
+   * Number of origins currently remembered (including expired, not yet evicted entries).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(origin: string): Promise<string | undefined> {
+    const entry = this.entries.get(origin);
+    if (!entry) return Promise.resolve(undefined);
+
+    this.entries.delete(origin);
+    if (Date.now() >= entry.expiresAt) {
+      return Promise.resolve(undefined);
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.set(origin, entry);
+    return Promise.resolve(entry.nonce);
+  }
+
+  set(origin: string, nonce: string): Promise<void> {
+    this.entries.delete(origin);
+    this.entries.set(origin, { nonce, expiresAt: Date.now() + this.ttl * 1000 });
+
+    // Map iteration order is insertion order, so the first key is least recently used
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value!;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Options for {@link StorageNonceStore}.
+ */
+export interface StorageNonceStoreOptions {
+  /** How long a nonce is kept, in seconds (default: 180) */
+  ttl?: number;
+
+  /** Storage key prefix (default: "dpop-nonce:") */
+  prefix?: string;
+}
+
+/**
+ * Nonce store backed by an {@link OAuthStorage}.
+ *
+ * Use with a shared storage backend (e.g., SQLite or Deno KV) so that
+ * multiple isolates reuse fresh nonces instead of each paying for a nonce
+ * challenge round trip.
+ *
+ * @example
+ * ```ts
+ * const client = new OAuthClient({
+ *   // ... other config
+ *   storage,
+ *   nonceStore: new StorageNonceStore(storage),
+ * });
+ * ```
+ */
+export class StorageNonceStore implements NonceStore {
+  private readonly ttl: number;
+  private readonly prefix: string;
+
+  /**
+   * Create a new storage-backed nonce store.
+   *
+   * @param storage - Storage backend shared across isolates
+   * @param options - Expiry and key prefix options
+   */
+  constructor(private readonly storage: OAuthStorage, options: StorageNonceStoreOptions = {}) {
+    this.ttl = options.ttl ?? 180;
+    this.prefix = options.prefix ?? "dpop-nonce:";
+  }
+
+  async get(origin: string): Promise<string | undefined> {
+    return (await this.storage.get<string>(`${this.prefix}${origin}`)) ?? undefined;
+  }
+
+  async set(origin: string, nonce: string): Promise<void> {
+    await this.storage.set(`${this.prefix}${origin}`, nonce, { ttl: this.ttl });
+  }
+}
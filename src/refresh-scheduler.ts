@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Proactive background token refresh for long-lived processes
+ * @module
+ */
+
+import type { Session } from "./session.ts";
+import type { Logger } from "./logger.ts";
+import { NetworkError } from "./errors.ts";
+
+/** Largest delay accepted by setTimeout (~24.8 days) */
+const MAX_TIMER_DELAY = 2_147_483_647;
+
+/**
+ * Options for background token refresh.
+ */
+export interface BackgroundRefreshOptions {
+  /** How long before `tokenExpiresAt` to refresh, in milliseconds (default: 300000) */
+  leadTime?: number;
+
+  /** Maximum random jitter in milliseconds subtracted from the refresh time (default: 30000) */
+  jitter?: number;
+
+  /** Delay in milliseconds before retrying after a network failure (default: 30000) */
+  retryDelay?: number;
+}
+
+/**
+ * Clock and timer used by {@link RefreshScheduler}, replaceable in tests.
+ *
+ * @internal
+ */
+export interface SchedulerClock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+
+  /** Run `fn` after `delay` milliseconds, returning a timer handle */
+  setTimeout(fn: () => void, delay: number): unknown;
+
+  /** Cancel a timer by the handle `setTimeout` returned */
+  clearTimeout(handle: unknown): void;
+}
+
+/** Wall clock and global timers */
+const SYSTEM_CLOCK: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (fn, delay) => setTimeout(fn, delay),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Schedules token refreshes for tracked sessions ahead of expiry.
+ *
+ * Each session is refreshed once, at `leadTime` (minus random jitter) before
+ * its access token expires. The refresh function is responsible for
+ * persisting the result, which re-schedules the session. Network failures are
+ * retried after `retryDelay`; any other failure stops tracking the session.
+ *
+ * @internal
+ */
+export class RefreshScheduler {
+  private readonly timers = new Map<string, unknown>();
+  private readonly leadTime: number;
+  private readonly jitter: number;
+  private readonly retryDelay: number;
+  private disposed = false;
+
+  /**
+   * Create a new refresh scheduler.
+   *
+   * @param refreshFn - Refreshes and persists a session
+   * @param logger - Logger instance
+   * @param options - Scheduling options
+   * @param clock - Clock and timer (defaults to `Date.now()` and the global timers)
+   */
+  constructor(
+    private readonly refreshFn: (sessionId: string, session: Session) => Promise<void>,
+    private readonly logger: Logger,
+    options: BackgroundRefreshOptions = {},
+    private readonly clock: SchedulerClock = SYSTEM_CLOCK,
+  ) {
+    this.leadTime = options.leadTime ?? 5 * 60 * 1000;
+    this.jitter = options.jitter ?? 30_000;
+    this.retryDelay = options.retryDelay ?? 30_000;
+  }
+
+  /**
+   * Number of sessions with a pending refresh.
+   */
+  get size(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Track a session, replacing any refresh already scheduled for it.
+   *
+   * @param sessionId - Session identifier
+   * @param session - Session to refresh ahead of expiry
+   */
+  schedule(sessionId: string, session: Session): void {
+    const delay = session.timeUntilExpiry - this.leadTime - Math.random() * this.jitter;
+    this.scheduleIn(sessionId, session, delay);
+  }
+
+  /**
+   * Stop tracking a session.
+   *
+   * @param sessionId - Session identifier
+   */
+  cancel(sessionId: string): void {
+    const timer = this.timers.get(sessionId);
+    if (timer !== undefined) {
+      this.clock.clearTimeout(timer);
+      this.timers.delete(sessionId);
+    }
+  }
+
+  /**
+   * Cancel all pending refreshes. The scheduler accepts no new sessions afterwards.
+   */
+  dispose(): void {
+    this.disposed = true;
+    for (const timer of this.timers.values()) {
+      this.clock.clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private scheduleIn(sessionId: string, session: Session, delay: number): void {
+    this.scheduleAt(sessionId, session, this.clock.now() + Math.max(0, delay));
+  }
+
+  private scheduleAt(sessionId: string, session: Session, fireAt: number): void {
+    if (this.disposed) return;
+
+    this.cancel(sessionId);
+    const delay = Math.min(Math.max(0, fireAt - this.clock.now()), MAX_TIMER_DELAY);
+    const timer = this.clock.setTimeout(() => this.run(sessionId, session, fireAt), delay);
+    this.timers.set(sessionId, timer);
+    this.logger.debug("Background refresh scheduled", { sessionId, delay });
+  }
+
+  private async run(sessionId: string, session: Session, fireAt: number): Promise<void> {
+    this.timers.delete(sessionId);
+
+    // Long delays are capped by setTimeout; wait out the remainder
+    if (fireAt > this.clock.now()) {
+      this.scheduleAt(sessionId, session, fireAt);
+      return;
+    }
+
+    try {
+      this.logger.debug("Running background refresh", { sessionId });
+      await this.refreshFn(sessionId, session);
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        this.logger.warn("Background refresh failed, retrying", { sessionId, error });
+        this.scheduleIn(sessionId, session, this.retryDelay);
+        return;
+      }
+      this.logger.error("Background refresh failed, no longer tracking session", {
+        sessionId,
+        error,
+      });
+    }
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Registry hosting several OAuth client configurations in one process
+ * @module
+ */
+
+import { OAuthClient } from "./client.ts";
+import { InvalidStateError, OAuthError } from "./errors.ts";
+import type { Logger } from "./logger.ts";
+import { NoOpLogger } from "./logger.ts";
+import { NamespacedStorage } from "./storage.ts";
+import type { AbortOptions, OAuthClientConfig, OAuthSession, OAuthStorage } from "./types.ts";
+
+/**
+ * Configuration for a client hosted by an {@link OAuthClientRegistry}.
+ *
+ * Same as {@link OAuthClientConfig}, except that storage comes from the
+ * registry, namespaced per client.
+ */
+export interface OAuthClientRegistration extends Omit<OAuthClientConfig, "storage"> {
+  /** Storage namespace for this client (default: the registration ID) */
+  namespace?: string;
+}
+
+/**
+ * Options for {@link OAuthClientRegistry}.
+ */
+export interface OAuthClientRegistryOptions {
+  /** Storage shared by all clients; each client gets its own namespace in it */
+  storage: OAuthStorage;
+
+  /**
+   * Logger for all clients (default: no-op). Messages are prefixed with the
+   * registration ID; a registration's own `logger` takes precedence.
+   */
+  logger?: Logger;
+}
+
+/**
+ * Result of {@link OAuthClientRegistry.callback}.
+ */
+export interface RegistryCallbackResult {
+  /** Registration ID of the client that handled the callback */
+  id: string;
+
+  /** Client that handled the callback */
+  client: OAuthClient;
+
+  /** Authenticated session */
+  session: OAuthSession;
+
+  /** OAuth state parameter */
+  state: string | null;
+}
+
+/**
+ * Registered client with its namespaced storage.
+ * @internal
+ */
+interface RegistryEntry {
+  client: OAuthClient;
+  storage: NamespacedStorage;
+  redirectPath: string;
+}
+
+/**
+ * Logger that prefixes every message with the registration ID.
+ * @internal
+ */
+class PrefixedLogger implements Logger {
+  constructor(private readonly logger: Logger, private readonly prefix: string) {}
+
+  debug(message: string, ...args: unknown[]): void {
+    this.logger.debug(`[${this.prefix}] ${message}`, ...args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.logger.info(`[${this.prefix}] ${message}`, ...args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.logger.warn(`[${this.prefix}] ${message}`, ...args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.logger.error(`[${this.prefix}] ${message}`, ...args);
+  }
+}
+
+/**
+ * Hosts several {@link OAuthClient} configurations (e.g., apps with different
+ * `clientId`s) in one server process.
+ *
+ * Every client stores its PKCE state and sessions in its own namespace of the
+ * shared storage, and has its own nonce store and logger. Incoming callbacks
+ * are routed to the client whose redirect URI path matches, or else to the
+ * client that issued the `state`.
+ *
+ * @example
+ * ```ts
+ * const registry = new OAuthClientRegistry({ storage: new SQLiteStorage(sqlite) });
+ *
+ * registry.register("blog", {
+ *   clientId: "https://blog.example.com/client-metadata.json",
+ *   redirectUri: "https://blog.example.com/oauth/callback",
+ * });
+ * registry.register("photos", {
+ *   clientId: "https://photos.example.com/client-metadata.json",
+ *   redirectUri: "https://photos.example.com/oauth/callback",
+ * });
+ *
+ * // Start login for one app
+ * const authUrl = await registry.get("blog")!.authorize("alice.bsky.social");
+ *
+ * // Handle any app's callback
+ * const { id, session } = await registry.callback(new URL(request.url));
+ * ```
+ */
+export class OAuthClientRegistry {
+  private readonly entries = new Map<string, RegistryEntry>();
+  private readonly storage: OAuthStorage;
+  private readonly logger: Logger;
+
+  /**
+   * Create a new client registry.
+   *
+   * @param options - Shared storage and logger
+   */
+  constructor(options: OAuthClientRegistryOptions) {
+    this.storage = options.storage;
+    this.logger = options.logger ?? new NoOpLogger();
+  }
+
+  /**
+   * Registration IDs in registration order.
+   */
+  get ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Create and register a client.
+   *
+   * @param id - Registration ID, unique within the registry
+   * @param config - Client configuration
+   * @returns The registered client
+   * @throws {OAuthError} When the ID or namespace is already registered, the
+   *   namespace contains ":", or the client configuration is invalid
+   */
+  register(id: string, config: OAuthClientRegistration): OAuthClient {
+    const { namespace = id, ...clientConfig } = config;
+
+    if (this.entries.has(id)) {
+      throw new OAuthError(`Client already registered: ${id}`);
+    }
+    // A ":" would let "a" + "b:pkce:x" and "a:b" + "pkce:x" map to the same key
+    if (!namespace || namespace.includes(":")) {
+      throw new OAuthError(`Invalid storage namespace: "${namespace}"`);
+    }
+    for (const entry of this.entries.values()) {
+      if (entry.storage.namespace === namespace) {
+        throw new OAuthError(`Storage namespace already in use: ${namespace}`);
+      }
+    }
+
+    const storage = new NamespacedStorage(this.storage, namespace);
+    const client = new OAuthClient({
+      ...clientConfig,
+      storage,
+      logger: clientConfig.logger ?? new PrefixedLogger(this.logger, id),
+    });
+
+    this.entries.set(id, { client, storage, redirectPath: new URL(config.redirectUri).pathname });
+    return client;
+  }
+
+  /**
+   * Get a registered client.
+   *
+   * @param id - Registration ID
+   * @returns The client, or undefined if not registered
+   */
+  get(id: string): OAuthClient | undefined {
+    return this.entries.get(id)?.client;
+  }
+
+  /**
+   * Find the client responsible for an authorization callback.
+   *
+   * A callback URL whose path matches exactly one client's redirect URI is
+   * routed by path. Otherwise the client holding the pending `state` is used.
+   *
+   * @param input - Callback URL, or its query parameters
+   * @returns Registration ID and client
+   * @throws {InvalidStateError} When no client matches the callback
+   */
+  async resolveCallback(
+    input: URL | URLSearchParams,
+  ): Promise<{ id: string; client: OAuthClient }> {
+    const params = input instanceof URL ? input.searchParams : input;
+
+    let candidates = [...this.entries];
+    if (input instanceof URL) {
+      const byPath = candidates.filter(([, entry]) => entry.redirectPath === input.pathname);
+      if (byPath.length === 1) {
+        const [id, entry] = byPath[0]!;
+        return { id, client: entry.client };
+      }
+      if (byPath.length > 1) candidates = byPath;
+    }
+
+    const state = params.get("state");
+    if (state) {
+      for (const [id, entry] of candidates) {
+        if (await entry.storage.get(`pkce:${state}`) !== null) {
+          return { id, client: entry.client };
+        }
+      }
+    }
+
+    this.logger.error("No registered client matches callback", { state });
+    throw new InvalidStateError();
+  }
+
+  /**
+   * Route an authorization callback to the right client and complete it.
+   *
+   * @param input - Callback URL, or its query parameters
+   * @param options - Abort options, passed on to {@link OAuthClient.callback}
+   * @returns Registration ID, client, session and state
+   * @throws {InvalidStateError} When no client matches the callback
+   * @throws Errors from {@link OAuthClient.callback}
+   */
+  async callback(
+    input: URL | URLSearchParams,
+    options: AbortOptions = {},
+  ): Promise<RegistryCallbackResult> {
+    const { id, client } = await this.resolveCallback(input);
+    const params = input instanceof URL ? input.searchParams : input;
+    const { session, state } = await client.callback(params, options);
+    return { id, client, session, state };
+  }
+}
@@ -3,9 +3,79 @@
  * @module
  */
 
-import { AuthServerDiscoveryError, HandleResolutionError, PDSDiscoveryError } from "./errors.ts";
-import type { HandleResolver } from "./types.ts";
-import { requireHttpsUrl, validateAuthServerMetadata } from "./validation.ts";
+import {
+  AuthServerDiscoveryError,
+  HandleResolutionError,
+  PDSDiscoveryError,
+  UnsupportedDidMethodError,
+} from "./errors.ts";
+import { fetchWithSignal } from "./timeout.ts";
+import type { AbortOptions, FetchFunction, HandleResolver } from "./types.ts";
+import type { DiscoveryCache } from "./discovery-cache.ts";
+import {
+  requireHttpsUrl,
+  validateAuthServerMetadata,
+  type ValidatedAuthServerMetadata,
+} from "./validation.ts";
+
+/**
+ * OAuth endpoints discovered from an authorization server's metadata.
+ */
+export interface OAuthEndpoints {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  pushedAuthorizationRequestEndpoint?: string | undefined;
+  revocationEndpoint?: string | undefined;
+  /** Full validated authorization server metadata */
+  metadata: ValidatedAuthServerMetadata;
+}
+
+/**
+ * Options for OAuth metadata discovery.
+ */
+export interface DiscoveryOptions {
+  /** Cache for metadata documents (optional, fetches every time when omitted) */
+  cache?: DiscoveryCache;
+
+  /** `fetch` implementation (optional, defaults to the global `fetch`) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Options for handle resolvers.
+ */
+export interface ResolverOptions {
+  /** `fetch` implementation (optional, defaults to the global `fetch`) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Options for {@link SlingshotResolver}.
+ */
+export interface SlingshotResolverOptions extends ResolverOptions {
+  /** Slingshot service URL (optional, defaults to the official instance) */
+  url?: string;
+}
+
+/**
+ * Fetch a JSON metadata document, through the discovery cache when provided.
+ */
+async function fetchMetadata<T>(
+  url: string,
+  parse: (raw: unknown) => T,
+  options: DiscoveryOptions,
+): Promise<T> {
+  if (options.cache) {
+    return await options.cache.fetch(url, parse, options.fetch);
+  }
+
+  const response = await (options.fetch ?? fetch)(url);
+  if (!response.ok) {
+    throw new Error(`Metadata request failed: ${response.status}`);
+  }
+  return parse(await response.json());
+}
 
 /**
  * Slingshot-based handle resolver for AT Protocol.
@@ -20,14 +90,30 @@ import { requireHttpsUrl, validateAuthServerMetadata } from "./validation.ts";
  * const { did, pdsUrl } = await resolver.resolve("alice.bsky.social");
  * console.log(`DID: ${did}, PDS: ${pdsUrl}`);
  * ```
+ *
+ * @example Route lookups through a custom fetch
+ * ```ts
+ * const resolver = new SlingshotResolver({
+ *   url: "https://custom-slingshot.com",
+ *   fetch: proxyFetch,
+ * });
+ * ```
  */
 export class SlingshotResolver implements HandleResolver {
+  private slingshotUrl: string;
+  private options: ResolverOptions;
+
   /**
    * Create a new Slingshot resolver.
    *
-   * @param slingshotUrl - Custom Slingshot service URL (defaults to official instance)
+   * @param options - Custom Slingshot service URL, or resolver options
+   *   (defaults to the official instance and the global `fetch`)
    */
-  constructor(private slingshotUrl: string = "https://slingshot.microcosm.blue") {}
+  constructor(options: string | SlingshotResolverOptions = {}) {
+    const { url, ...rest } = typeof options === "string" ? { url: options } : options;
+    this.slingshotUrl = url ?? "https://slingshot.microcosm.blue";
+    this.options = rest;
+  }
 
   /**
    * Resolve an AT Protocol handle to DID and PDS URL.
@@ -36,24 +122,31 @@ export class SlingshotResolver implements HandleResolver {
    * methods if Slingshot is unavailable.
    *
    * @param handle - AT Protocol handle to resolve (e.g., "alice.bsky.social")
+   * @param options - Abort options; the signal cancels all lookups
    * @returns Promise resolving to DID and PDS URL
    * @throws {HandleResolutionError} When handle cannot be resolved
    */
-  async resolve(handle: string): Promise<{ did: string; pdsUrl: string }> {
+  async resolve(
+    handle: string,
+    options: AbortOptions = {},
+  ): Promise<{ did: string; pdsUrl: string }> {
+    const fetchFn = resolverFetch(this.options, options.signal);
     try {
-      return await this.resolveHandleWithSlingshot(handle);
+      return await this.resolveHandleWithSlingshot(handle, fetchFn);
     } catch (_error) {
+      options.signal?.throwIfAborted();
       // Fallback to other methods if Slingshot fails
-      return await this.fallbackResolve(handle);
+      return await this.fallbackResolve(handle, fetchFn);
     }
   }
 
   private async resolveHandleWithSlingshot(
     handle: string,
+    fetchFn: FetchFunction,
   ): Promise<{ did: string; pdsUrl: string }> {
     try {
       // Use Slingshot's resolveMiniDoc endpoint which returns both DID and PDS URL
-      const response = await fetch(
+      const response = await fetchFn(
         `${this.slingshotUrl}/xrpc/com.bad-example.identity.resolveMiniDoc?identifier=${
           encodeURIComponent(handle)
         }`,
@@ -74,7 +167,7 @@ export class SlingshotResolver implements HandleResolver {
       };
     } catch (_error) {
       // Fallback to standard AT Protocol endpoint if resolveMiniDoc fails
-      const response = await fetch(
+      const response = await fetchFn(
         `${this.slingshotUrl}/xrpc/com.atproto.identity.resolveHandle?handle=${
           encodeURIComponent(handle)
         }`,
@@ -90,7 +183,7 @@ export class SlingshotResolver implements HandleResolver {
       }
 
       // Get PDS URL from DID document
-      const pdsUrl = await resolvePdsFromDid(data.did);
+      const pdsUrl = await resolvePdsFromDid(data.did, fetchFn);
 
       return {
         did: data.did,
@@ -101,11 +194,12 @@ export class SlingshotResolver implements HandleResolver {
 
   private async fallbackResolve(
     handle: string,
+    fetchFn: FetchFunction,
   ): Promise<{ did: string; pdsUrl: string }> {
     // Try multiple resolution methods in order of preference
     const fallbackResolvers = [
-      () => this.resolveHandleWithBlueskyAPI(handle),
-      () => this.resolveHandleDirectly(handle),
+      () => this.resolveHandleWithBlueskyAPI(handle, fetchFn),
+      () => this.resolveHandleDirectly(handle, fetchFn),
     ];
 
     for (const resolver of fallbackResolvers) {
@@ -121,8 +215,9 @@ export class SlingshotResolver implements HandleResolver {
 
   private async resolveHandleWithBlueskyAPI(
     handle: string,
+    fetchFn: FetchFunction,
   ): Promise<{ did: string; pdsUrl: string }> {
-    const response = await fetch(
+    const response = await fetchFn(
       `https://bsky.social/xrpc/com.atproto.identity.resolveHandle?handle=${
         encodeURIComponent(handle)
       }`,
@@ -137,7 +232,7 @@ export class SlingshotResolver implements HandleResolver {
       throw new Error("No DID found in Bluesky API response");
     }
 
-    const pdsUrl = await resolvePdsFromDid(data.did);
+    const pdsUrl = await resolvePdsFromDid(data.did, fetchFn);
 
     return {
       did: data.did,
@@ -147,13 +242,14 @@ export class SlingshotResolver implements HandleResolver {
 
   private async resolveHandleDirectly(
     handle: string,
+    fetchFn: FetchFunction,
   ): Promise<{ did: string; pdsUrl: string }> {
     if (!handle.includes(".")) {
       throw new Error("Direct resolution requires domain handle");
     }
 
     try {
-      const response = await fetch(`https://${handle}/.well-known/atproto-did`);
+      const response = await fetchFn(`https://${handle}/.well-known/atproto-did`);
       if (!response.ok) {
         throw new Error(`Well-known DID lookup failed: ${response.status}`);
       }
@@ -163,7 +259,7 @@ export class SlingshotResolver implements HandleResolver {
         throw new Error("Invalid DID format");
       }
 
-      const pdsUrl = await resolvePdsFromDid(did);
+      const pdsUrl = await resolvePdsFromDid(did, fetchFn);
 
       return {
         did,
@@ -184,21 +280,33 @@ export class SlingshotResolver implements HandleResolver {
  *
  * @example
  * ```ts
- * const resolver = new DirectoryResolver();
+ * const resolver = new DirectoryResolver({ fetch: proxyFetch });
  * const { did, pdsUrl } = await resolver.resolve("alice.bsky.social");
  * console.log(`Resolved via Directory: ${did} -> ${pdsUrl}`);
  * ```
  */
 export class DirectoryResolver implements HandleResolver {
+  /**
+   * Create a new Directory resolver.
+   *
+   * @param options - Resolver options
+   */
+  constructor(private options: ResolverOptions = {}) {}
+
   /**
    * Resolve an AT Protocol handle to DID and PDS URL using Bluesky API.
    *
    * @param handle - AT Protocol handle to resolve (e.g., "alice.bsky.social")
+   * @param options - Abort options; the signal cancels the lookup
    * @returns Promise resolving to DID and PDS URL
    * @throws {HandleResolutionError} When handle cannot be resolved
    */
-  async resolve(handle: string): Promise<{ did: string; pdsUrl: string }> {
-    const response = await fetch(
+  async resolve(
+    handle: string,
+    options: AbortOptions = {},
+  ): Promise<{ did: string; pdsUrl: string }> {
+    const fetchFn = resolverFetch(this.options, options.signal);
+    const response = await fetchFn(
       `https://bsky.social/xrpc/com.atproto.identity.resolveHandle?handle=${
         encodeURIComponent(handle)
       }`,
@@ -216,7 +324,7 @@ export class DirectoryResolver implements HandleResolver {
       throw new HandleResolutionError(handle, new Error("No DID found in Bluesky API response"));
     }
 
-    const pdsUrl = await resolvePdsFromDid(data.did);
+    const pdsUrl = await resolvePdsFromDid(data.did, fetchFn);
 
     return {
       did: data.did,
@@ -254,19 +362,26 @@ export class CustomResolver implements HandleResolver {
    * @param resolverFunction - Function that resolves handles to DID and PDS URL
    */
   constructor(
-    private resolverFunction: (handle: string) => Promise<{ did: string; pdsUrl: string }>,
+    private resolverFunction: (
+      handle: string,
+      options: AbortOptions,
+    ) => Promise<{ did: string; pdsUrl: string }>,
   ) {}
 
   /**
    * Resolve handle using the provided custom function.
    *
    * @param handle - AT Protocol handle to resolve
+   * @param options - Abort options, passed on to the custom function
    * @returns Promise resolving to DID and PDS URL
    * @throws {HandleResolutionError} When custom resolver function fails
    */
-  async resolve(handle: string): Promise<{ did: string; pdsUrl: string }> {
+  async resolve(
+    handle: string,
+    options: AbortOptions = {},
+  ): Promise<{ did: string; pdsUrl: string }> {
     try {
-      return await this.resolverFunction(handle);
+      return await this.resolverFunction(handle, options);
     } catch (error) {
       throw new HandleResolutionError(handle, error as Error);
     }
@@ -279,7 +394,7 @@ export class CustomResolver implements HandleResolver {
  * Returns a {@link SlingshotResolver} configured with the specified Slingshot
  * service URL. This is the recommended resolver for most applications.
  *
- * @param slingshotUrl - Optional custom Slingshot service URL
+ * @param options - Optional custom Slingshot service URL, or resolver options
  * @returns Configured Slingshot resolver instance
  * @example
  * ```ts
@@ -288,43 +403,132 @@ export class CustomResolver implements HandleResolver {
  *
  * // Use custom Slingshot instance
  * const customResolver = createDefaultResolver("https://my-slingshot.example.com");
+ *
+ * // Route lookups through a custom fetch
+ * const proxiedResolver = createDefaultResolver({ fetch: proxyFetch });
  * ```
  */
-export function createDefaultResolver(slingshotUrl?: string): HandleResolver {
-  return new SlingshotResolver(slingshotUrl);
+export function createDefaultResolver(
+  options?: string | SlingshotResolverOptions,
+): HandleResolver {
+  return new SlingshotResolver(options);
+}
+
+/**
+ * Get the `fetch` function a built-in resolver uses for one lookup, bound to
+ * the lookup's abort signal. The global `fetch` is looked up per request.
+ */
+function resolverFetch(options: ResolverOptions, signal?: AbortSignal): FetchFunction {
+  const fetchFn: FetchFunction = options.fetch ?? ((input, init) => fetch(input, init));
+  return signal ? fetchWithSignal(fetchFn, signal) : fetchFn;
 }
 
 /**
  * Resolve PDS URL from DID by fetching DID document
  */
-async function resolvePdsFromDid(did: string): Promise<string> {
-  const result = await resolveDidDocument(did);
+async function resolvePdsFromDid(did: string, fetchFn: FetchFunction): Promise<string> {
+  const result = await resolveDidDocument(did, { fetch: fetchFn });
   return result.pdsUrl;
 }
 
+/** Default PLC directory used to resolve `did:plc` identities */
+export const DEFAULT_PLC_DIRECTORY_URL = "https://plc.directory";
+
+/**
+ * Options for DID document resolution.
+ */
+export interface ResolveDidOptions {
+  /** PLC directory base URL for `did:plc` lookups (defaults to https://plc.directory) */
+  plcDirectoryUrl?: string;
+
+  /** `fetch` implementation (optional, defaults to the global `fetch`) */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Get the URL a DID document should be fetched from.
+ *
+ * Dispatches on the DID method: `did:plc` identities are looked up in a PLC
+ * directory, and `did:web` identities are fetched from
+ * `https://<host>/.well-known/did.json`. Percent-encoded ports in `did:web`
+ * identifiers (e.g. `did:web:localhost%3A2583`) are decoded. Path-based
+ * `did:web` identifiers are not supported by AT Protocol and are rejected.
+ *
+ * @param did - DID to resolve (e.g., "did:plc:..." or "did:web:example.com")
+ * @param plcDirectoryUrl - PLC directory base URL for `did:plc` lookups
+ * @returns URL of the DID document
+ * @throws {UnsupportedDidMethodError} When the DID method is not supported
+ * @example
+ * ```ts
+ * getDidDocumentUrl("did:web:example.com");
+ * // "https://example.com/.well-known/did.json"
+ * ```
+ */
+export function getDidDocumentUrl(
+  did: string,
+  plcDirectoryUrl: string = DEFAULT_PLC_DIRECTORY_URL,
+): string {
+  if (did.startsWith("did:plc:")) {
+    return `${plcDirectoryUrl.replace(/\/$/, "")}/${encodeURIComponent(did)}`;
+  }
+
+  if (did.startsWith("did:web:")) {
+    const identifier = did.slice("did:web:".length);
+    if (!identifier || identifier.includes(":")) {
+      throw new UnsupportedDidMethodError(did);
+    }
+
+    let host: string;
+    try {
+      host = decodeURIComponent(identifier);
+    } catch {
+      throw new UnsupportedDidMethodError(did);
+    }
+
+    // Only a hostname with an optional port is allowed after decoding
+    if (!/^[a-zA-Z0-9.-]+(:\d+)?$/.test(host)) {
+      throw new UnsupportedDidMethodError(did);
+    }
+
+    return `https://${host}/.well-known/did.json`;
+  }
+
+  throw new UnsupportedDidMethodError(did);
+}
+
 /**
  * Resolve DID document to extract PDS URL and handle.
  *
- * Fetches the DID document from PLC directory and extracts the PDS service
- * endpoint and handle from alsoKnownAs. Used during auth server URL flows
- * to populate session data after the token exchange.
+ * Fetches the DID document for `did:plc` (from the PLC directory) or
+ * `did:web` (from the host's `/.well-known/did.json`) identities and extracts
+ * the PDS service endpoint and handle from alsoKnownAs. Used during auth
+ * server URL flows to populate session data after the token exchange.
  *
- * @param did - DID to resolve (e.g., "did:plc:...")
+ * @param did - DID to resolve (e.g., "did:plc:..." or "did:web:...")
+ * @param options - Resolution options
  * @returns Promise resolving to PDS URL and handle
+ * @throws {UnsupportedDidMethodError} When the DID method is not supported
  * @throws {PDSDiscoveryError} When DID document cannot be fetched or parsed
  */
 export async function resolveDidDocument(
   did: string,
+  options: ResolveDidOptions = {},
 ): Promise<{ pdsUrl: string; handle: string }> {
+  const documentUrl = getDidDocumentUrl(did, options.plcDirectoryUrl);
+
   try {
-    const response = await fetch(`https://plc.directory/${encodeURIComponent(did)}`);
+    const response = await (options.fetch ?? fetch)(documentUrl);
 
     if (!response.ok) {
-      throw new Error(`PLC directory lookup failed: ${response.status}`);
+      throw new Error(`DID document lookup failed: ${response.status}`);
     }
 
     const didDocument = await response.json();
 
+    if (didDocument.id !== did) {
+      throw new Error(`DID document id "${didDocument.id}" does not match ${did}`);
+    }
+
     // Look for AT Protocol service in DID document
     const service = didDocument.service?.find((
       s: { type?: string; id?: string; serviceEndpoint?: unknown },
@@ -360,6 +564,46 @@ export async function resolveDidDocument(
   }
 }
 
+/** Placeholder handle used when an identity's handle can't be verified */
+export const INVALID_HANDLE = "handle.invalid";
+
+/**
+ * Verify that a handle claimed by a DID document resolves back to that DID.
+ *
+ * DID documents can list any handle in `alsoKnownAs`, so a claimed handle
+ * is only trustworthy when resolving it yields the same DID. Resolution
+ * failures count as unverified.
+ *
+ * @param did - DID whose document claims the handle
+ * @param handle - Claimed handle (from the DID document's alsoKnownAs)
+ * @param resolver - Handle resolver used to re-resolve the handle
+ * @param options - Abort options, passed on to the resolver
+ * @returns Promise resolving to true when the handle resolves to the same DID
+ * @example
+ * ```ts
+ * const { handle } = await resolveDidDocument(did);
+ * const verified = await verifyHandle(did, handle, createDefaultResolver());
+ * const displayHandle = verified ? handle : INVALID_HANDLE;
+ * ```
+ */
+export async function verifyHandle(
+  did: string,
+  handle: string,
+  resolver: HandleResolver,
+  options: AbortOptions = {},
+): Promise<boolean> {
+  if (!handle || handle === did || handle === INVALID_HANDLE) {
+    return false;
+  }
+
+  try {
+    const resolved = await resolver.resolve(handle, options);
+    return resolved.did === did;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Discover OAuth authentication server URL from PDS metadata.
  *
@@ -368,6 +612,7 @@ export async function resolveDidDocument(
  * where the OAuth server may be separate from the PDS.
  *
  * @param pdsUrl - The PDS URL to query for OAuth metadata
+ * @param options - Discovery options
  * @returns Promise resolving to the authentication server URL
  * @throws {AuthServerDiscoveryError} When authentication server cannot be discovered
  * @example
@@ -378,15 +623,19 @@ export async function resolveDidDocument(
  */
 export async function discoverAuthenticationServer(
   pdsUrl: string,
+  options: DiscoveryOptions = {},
 ): Promise<string> {
   try {
-    const response = await fetch(`${pdsUrl}/.well-known/oauth-protected-resource`);
-
-    if (!response.ok) {
-      throw new Error(`PDS OAuth metadata discovery failed: ${response.status}`);
-    }
-
-    const metadata = await response.json();
+    const metadata = await fetchMetadata(
+      `${pdsUrl}/.well-known/oauth-protected-resource`,
+      (raw) => {
+        if (!raw || typeof raw !== "object") {
+          throw new Error("PDS OAuth metadata is not an object");
+        }
+        return raw as { authorization_servers?: string[] };
+      },
+      options,
+    );
 
     // The authorization_servers field contains potential authentication servers
     if (metadata.authorization_servers && metadata.authorization_servers.length > 0) {
@@ -409,9 +658,11 @@ export async function discoverAuthenticationServer(
  * Discover OAuth endpoints from an authentication server.
  *
  * Fetches the OAuth authorization server metadata to get the endpoints
- * needed for the OAuth flow (authorization, token, and optionally revocation).
+ * needed for the OAuth flow (authorization, token, and optionally PAR and
+ * revocation), along with the full validated metadata document.
  *
  * @param authServerUrl - The authentication server URL
+ * @param options - Discovery options
  * @returns Promise resolving to OAuth endpoints
  * @throws {PDSDiscoveryError} When OAuth endpoints cannot be discovered
  * @example
@@ -423,31 +674,23 @@ export async function discoverAuthenticationServer(
  */
 export async function discoverOAuthEndpointsFromAuthServer(
   authServerUrl: string,
-): Promise<{
-  issuer: string;
-  authorizationEndpoint: string;
-  tokenEndpoint: string;
-  revocationEndpoint?: string | undefined;
-}> {
+  options: DiscoveryOptions = {},
+): Promise<OAuthEndpoints> {
   try {
-    const response = await fetch(
+    // Validate metadata including issuer match and HTTPS enforcement
+    const metadata = await fetchMetadata(
       `${authServerUrl}/.well-known/oauth-authorization-server`,
+      (raw) => validateAuthServerMetadata(raw, authServerUrl),
+      options,
     );
 
-    if (!response.ok) {
-      throw new Error(`OAuth discovery failed: ${response.status}`);
-    }
-
-    const rawMetadata = await response.json();
-
-    // Validate metadata including issuer match and HTTPS enforcement
-    const metadata = validateAuthServerMetadata(rawMetadata, authServerUrl);
-
     return {
       issuer: metadata.issuer,
       authorizationEndpoint: metadata.authorization_endpoint,
       tokenEndpoint: metadata.token_endpoint,
+      pushedAuthorizationRequestEndpoint: metadata.pushed_authorization_request_endpoint,
       revocationEndpoint: metadata.revocation_endpoint,
+      metadata,
     };
   } catch (error) {
     throw new AuthServerDiscoveryError(authServerUrl, error as Error);
@@ -462,6 +705,7 @@ export async function discoverOAuthEndpointsFromAuthServer(
  * from that server. This is the main function used during OAuth authorization.
  *
  * @param pdsUrl - The PDS URL to discover OAuth endpoints for
+ * @param options - Discovery options
  * @returns Promise resolving to OAuth endpoints
  * @throws {PDSDiscoveryError} When OAuth endpoints cannot be discovered
  * @example
@@ -473,18 +717,14 @@ export async function discoverOAuthEndpointsFromAuthServer(
  */
 export async function discoverOAuthEndpointsFromPDS(
   pdsUrl: string,
-): Promise<{
-  issuer: string;
-  authorizationEndpoint: string;
-  tokenEndpoint: string;
-  revocationEndpoint?: string | undefined;
-}> {
+  options: DiscoveryOptions = {},
+): Promise<OAuthEndpoints> {
   try {
     // Step 1: Try to discover authentication server from PDS
-    const authServer = await discoverAuthenticationServer(pdsUrl);
+    const authServer = await discoverAuthenticationServer(pdsUrl, options);
 
     // Step 2: Discover OAuth endpoints from authentication server
-    return await discoverOAuthEndpointsFromAuthServer(authServer);
+    return await discoverOAuthEndpointsFromAuthServer(authServer, options);
   } catch (authServerError) {
     // If auth server discovery fails, try using PDS directly as fallback
     try {
@@ -492,7 +732,7 @@ export async function discoverOAuthEndpointsFromPDS(
         `Auth server discovery failed for ${pdsUrl}, trying PDS directly:`,
         authServerError,
       );
-      return await discoverOAuthEndpointsFromAuthServer(pdsUrl);
+      return await discoverOAuthEndpointsFromAuthServer(pdsUrl, options);
     } catch (pdsError) {
       throw new PDSDiscoveryError(pdsUrl, pdsError as Error);
     }
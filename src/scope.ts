@@ -0,0 +1,386 @@
+/**
+ * @fileoverview AT Protocol OAuth scope builder, parser and permission checks
+ * @module
+ */
+
+import { OAuthError } from "./errors.ts";
+
+/** Record operations a `repo:` permission can grant */
+export type RepoAction = "create" | "update" | "delete";
+
+/** Account attributes an `account:` permission can grant access to */
+export type AccountAttribute = "email" | "repo" | "status";
+
+/** Access level of an `account:` permission (`manage` implies `read`) */
+export type AccountAction = "read" | "manage";
+
+/** Identity attributes an `identity:` permission can grant control over */
+export type IdentityAttribute = "handle" | "*";
+
+const REPO_ACTIONS: readonly RepoAction[] = ["create", "update", "delete"];
+
+/**
+ * A single permission parsed from a scope string.
+ *
+ * Scope tokens that are not recognized are kept as `unknown` so that parsing
+ * and formatting a granted scope never drops anything.
+ *
+ * @see https://atproto.com/specs/permission
+ */
+export type ScopePermission =
+  | { type: "atproto" }
+  | { type: "transition"; name: string }
+  | { type: "repo"; collection: string; actions: RepoAction[] }
+  | { type: "rpc"; method: string; aud: string }
+  | { type: "blob"; accept: string[] }
+  | { type: "account"; attr: AccountAttribute; action: AccountAction }
+  | { type: "identity"; attr: IdentityAttribute }
+  | { type: "include"; nsid: string; aud?: string }
+  | { type: "unknown"; scope: string };
+
+/**
+ * An operation to check against a granted scope with {@link scopeAllows}.
+ *
+ * @example
+ * ```ts
+ * { repo: "app.bsky.feed.post", action: "create" }
+ * { rpc: "app.bsky.actor.getProfile", aud: "did:web:api.bsky.app#bsky_appview" }
+ * { blob: "image/jpeg" }
+ * { account: "email", action: "manage" }
+ * { identity: "handle" }
+ * ```
+ */
+export type ScopeRequest =
+  | { repo: string; action: RepoAction }
+  | { rpc: string; aud: string }
+  | { blob: string }
+  | { account: AccountAttribute; action?: AccountAction }
+  | { identity: Exclude<IdentityAttribute, "*"> };
+
+/**
+ * Parse a single scope token (e.g., `repo:app.bsky.feed.post?action=create`).
+ *
+ * The positional value may also be given as its named parameter
+ * (`repo?collection=app.bsky.feed.post`). Tokens that don't follow the
+ * permission syntax are returned as `{ type: "unknown" }`.
+ *
+ * @param token - One space-free scope token
+ * @returns Parsed permission
+ */
+export function parseScopePermission(token: string): ScopePermission {
+  try {
+    return parsePermission(token);
+  } catch {
+    // Malformed percent-encoding
+    return { type: "unknown", scope: token };
+  }
+}
+
+function parsePermission(token: string): ScopePermission {
+  if (token === "atproto") return { type: "atproto" };
+  if (token.startsWith("transition:")) {
+    return { type: "transition", name: token.slice("transition:".length) };
+  }
+
+  const match = /^([a-z]+)(?::([^?]*))?(?:\?(.*))?$/.exec(token);
+  if (!match) return { type: "unknown", scope: token };
+
+  const [, resource, positional, query] = match;
+  const params = new URLSearchParams(query ?? "");
+  const values = (name: string) => [
+    ...(positional ? [decodeURIComponent(positional)] : []),
+    ...params.getAll(name),
+  ];
+
+  switch (resource) {
+    case "repo": {
+      const actions = params.getAll("action");
+      const collection = values("collection")[0];
+      if (!collection || !actions.every((a) => REPO_ACTIONS.includes(a as RepoAction))) break;
+      return {
+        type: "repo",
+        collection,
+        actions: actions.length ? actions as RepoAction[] : [...REPO_ACTIONS],
+      };
+    }
+    case "rpc": {
+      const method = values("lxm")[0];
+      const aud = params.get("aud");
+      if (!method || !aud) break;
+      return { type: "rpc", method, aud };
+    }
+    case "blob": {
+      const accept = values("accept");
+      if (!accept.length) break;
+      return { type: "blob", accept };
+    }
+    case "account": {
+      const attr = values("attr")[0];
+      const action = params.get("action") ?? "read";
+      if (
+        (attr !== "email" && attr !== "repo" && attr !== "status") ||
+        (action !== "read" && action !== "manage")
+      ) break;
+      return { type: "account", attr, action };
+    }
+    case "identity": {
+      const attr = values("attr")[0];
+      if (attr !== "handle" && attr !== "*") break;
+      return { type: "identity", attr };
+    }
+    case "include": {
+      const nsid = values("nsid")[0];
+      if (!nsid) break;
+      const aud = params.get("aud");
+      return { type: "include", nsid, ...(aud ? { aud } : {}) };
+    }
+  }
+
+  return { type: "unknown", scope: token };
+}
+
+/**
+ * Parse a space-separated scope string into permissions.
+ *
+ * @param scope - Scope string (e.g., from a token response)
+ * @returns Parsed permissions in order
+ *
+ * @example
+ * ```ts
+ * parseScope("atproto repo:app.bsky.feed.post?action=create blob:image/*");
+ * // [
+ * //   { type: "atproto" },
+ * //   { type: "repo", collection: "app.bsky.feed.post", actions: ["create"] },
+ * //   { type: "blob", accept: ["image/*"] },
+ * // ]
+ * ```
+ */
+export function parseScope(scope: string): ScopePermission[] {
+  return scope.split(/\s+/).filter(Boolean).map(parseScopePermission);
+}
+
+/**
+ * Format a permission as a scope token.
+ *
+ * The output is canonical: repo actions are listed in `create`, `update`,
+ * `delete` order and blob MIME types are sorted, so equivalent permissions
+ * format to the same token.
+ *
+ * @param permission - Permission to format
+ * @returns Scope token
+ */
+export function formatScopePermission(permission: ScopePermission): string {
+  switch (permission.type) {
+    case "atproto":
+      return "atproto";
+    case "transition":
+      return `transition:${permission.name}`;
+    case "repo": {
+      const actions = REPO_ACTIONS.filter((a) => permission.actions.includes(a));
+      const all = actions.length === REPO_ACTIONS.length;
+      const query = all ? "" : `?${actions.map((a) => `action=${a}`).join("&")}`;
+      return `repo:${permission.collection}${query}`;
+    }
+    case "rpc":
+      return `rpc:${permission.method}?aud=${encodeURIComponent(permission.aud)}`;
+    case "blob": {
+      const accept = [...new Set(permission.accept)].sort();
+      return accept.length === 1
+        ? `blob:${accept[0]}`
+        : `blob?${accept.map((a) => `accept=${encodeURIComponent(a)}`).join("&")}`;
+    }
+    case "account":
+      return `account:${permission.attr}${permission.action === "read" ? "" : "?action=manage"}`;
+    case "identity":
+      return `identity:${permission.attr}`;
+    case "include":
+      return `include:${permission.nsid}${
+        permission.aud ? `?aud=${encodeURIComponent(permission.aud)}` : ""
+      }`;
+    case "unknown":
+      return permission.scope;
+  }
+}
+
+/**
+ * Check whether a granted scope permits an operation.
+ *
+ * `transition:generic` grants every repo, blob and RPC permission except
+ * `chat.bsky.*` methods, which need `transition:chat.bsky`;
+ * `transition:email` grants reading the account email. `include:` permission
+ * sets are expanded by the authorization server and are not evaluated here.
+ *
+ * @param scope - Granted scope string, or parsed permissions
+ * @param request - Operation to check
+ * @returns True if the scope grants the operation
+ *
+ * @example
+ * ```ts
+ * scopeAllows("atproto repo:app.bsky.feed.post?action=create", {
+ *   repo: "app.bsky.feed.post",
+ *   action: "create",
+ * }); // true
+ * ```
+ */
+export function scopeAllows(
+  scope: string | ScopePermission[],
+  request: ScopeRequest,
+): boolean {
+  const permissions = typeof scope === "string" ? parseScope(scope) : scope;
+  return permissions.some((permission) => permissionAllows(permission, request));
+}
+
+function permissionAllows(permission: ScopePermission, request: ScopeRequest): boolean {
+  if (permission.type === "transition") {
+    if (permission.name === "generic") {
+      if ("rpc" in request) return !request.rpc.startsWith("chat.bsky.");
+      return "repo" in request || "blob" in request;
+    }
+    if (permission.name === "chat.bsky") {
+      return "rpc" in request && request.rpc.startsWith("chat.bsky.");
+    }
+    if (permission.name === "email") {
+      return "account" in request && request.account === "email" &&
+        (request.action ?? "read") === "read";
+    }
+    return false;
+  }
+
+  if ("repo" in request) {
+    return permission.type === "repo" &&
+      (permission.collection === "*" || permission.collection === request.repo) &&
+      permission.actions.includes(request.action);
+  }
+  if ("rpc" in request) {
+    return permission.type === "rpc" &&
+      (permission.method === "*" || permission.method === request.rpc) &&
+      (permission.aud === "*" || permission.aud === request.aud);
+  }
+  if ("blob" in request) {
+    return permission.type === "blob" &&
+      permission.accept.some((pattern) => mimeMatches(pattern, request.blob));
+  }
+  if ("account" in request) {
+    return permission.type === "account" && permission.attr === request.account &&
+      (permission.action === "manage" || (request.action ?? "read") === "read");
+  }
+  return permission.type === "identity" &&
+    (permission.attr === "*" || permission.attr === request.identity);
+}
+
+function mimeMatches(pattern: string, mime: string): boolean {
+  if (pattern === "*/*") return true;
+  if (pattern.endsWith("/*")) return mime.startsWith(pattern.slice(0, -1));
+  return pattern === mime;
+}
+
+/**
+ * Fluent builder for AT Protocol scope strings.
+ *
+ * Always includes the required `atproto` scope. Use the result as the
+ * `scope` in `OAuthClientConfig` or `AuthorizeOptions`.
+ *
+ * @example
+ * ```ts
+ * const scope = new ScopeBuilder()
+ *   .repo("app.bsky.feed.post", ["create", "delete"])
+ *   .rpc("app.bsky.actor.getProfile", "did:web:api.bsky.app#bsky_appview")
+ *   .blob("image/*")
+ *   .build();
+ * // "atproto repo:app.bsky.feed.post?action=create&action=delete
+ * //  rpc:app.bsky.actor.getProfile?aud=did%3Aweb%3Aapi.bsky.app%23bsky_appview blob:image/*"
+ * ```
+ */
+export class ScopeBuilder {
+  private readonly permissions: ScopePermission[] = [{ type: "atproto" }];
+
+  /**
+   * Grant record operations on a collection.
+   *
+   * @param collection - Collection NSID, or "*" for all collections
+   * @param actions - Allowed operations (default: all)
+   * @throws {OAuthError} When no actions are given
+   */
+  repo(collection: string, actions: RepoAction[] = [...REPO_ACTIONS]): this {
+    if (actions.length === 0) {
+      throw new OAuthError("repo permission needs at least one action");
+    }
+    return this.add({ type: "repo", collection, actions });
+  }
+
+  /**
+   * Grant calling an XRPC method on a service.
+   *
+   * @param method - Lexicon method NSID, or "*" for all methods
+   * @param aud - Service DID with fragment (e.g., "did:web:api.bsky.app#bsky_appview"), or "*"
+   */
+  rpc(method: string, aud: string): this {
+    return this.add({ type: "rpc", method, aud });
+  }
+
+  /**
+   * Grant uploading blobs of the given MIME types.
+   *
+   * @param accept - MIME types or patterns (e.g., "image/*", "*\/*")
+   */
+  blob(...accept: string[]): this {
+    if (accept.length === 0) {
+      throw new OAuthError("blob permission needs at least one MIME type");
+    }
+    return this.add({ type: "blob", accept });
+  }
+
+  /**
+   * Grant access to an account attribute.
+   *
+   * @param attr - Account attribute
+   * @param action - Access level (default: "read")
+   */
+  account(attr: AccountAttribute, action: AccountAction = "read"): this {
+    return this.add({ type: "account", attr, action });
+  }
+
+  /**
+   * Grant control over an identity attribute.
+   *
+   * @param attr - Identity attribute, or "*" for full identity control
+   */
+  identity(attr: IdentityAttribute): this {
+    return this.add({ type: "identity", attr });
+  }
+
+  /**
+   * Request a permission set published as a lexicon.
+   *
+   * @param nsid - Permission set NSID
+   * @param aud - Default service audience for the set's RPC permissions (optional)
+   */
+  include(nsid: string, aud?: string): this {
+    return this.add({ type: "include", nsid, ...(aud ? { aud } : {}) });
+  }
+
+  /**
+   * Request a transitional scope (e.g., "generic", "chat.bsky", "email").
+   *
+   * @param name - Transitional scope name
+   */
+  transition(name: "generic" | "chat.bsky" | "email"): this {
+    return this.add({ type: "transition", name });
+  }
+
+  /**
+   * Build the space-separated scope string.
+   */
+  build(): string {
+    return [...new Set(this.permissions.map(formatScopePermission))].join(" ");
+  }
+
+  toString(): string {
+    return this.build();
+  }
+
+  private add(permission: ScopePermission): this {
+    this.permissions.push(permission);
+    return this;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Versioned SessionData schema: validation and migrations
+ * @module
+ */
+
+import { SessionDataCorruptError } from "./errors.ts";
+import type { SessionData } from "./types.ts";
+
+/**
+ * Current `SessionData` schema version, written with every new session.
+ * Records without a `version` predate versioning and count as version 0.
+ */
+export const SESSION_DATA_VERSION = 1;
+
+/** Loosely typed stored record, as seen by migrations */
+type StoredRecord = Record<string, unknown>;
+
+/**
+ * Migrations by source version: `MIGRATIONS[n]` upgrades a version `n`
+ * record to version `n + 1`. Append a migration whenever the stored shape of
+ * `SessionData` changes and bump {@link SESSION_DATA_VERSION}.
+ */
+const MIGRATIONS: Array<(record: StoredRecord) => StoredRecord> = [
+  // 0 → 1: unversioned records already have the version 1 shape; the fields
+  // added since (scope, issuer, endpoints, timestamps) are optional
+  (record) => record,
+];
+
+/**
+ * Result of {@link migrateSessionData}.
+ */
+export interface SessionDataMigrationResult {
+  /** Validated session data at the current schema version */
+  data: SessionData;
+
+  /** Whether the record was upgraded and should be written back */
+  migrated: boolean;
+}
+
+/**
+ * Upgrade a stored session record to the current schema version and validate it.
+ *
+ * @param record - Value read from storage
+ * @param sessionId - Session ID, for error messages (optional)
+ * @returns Validated data and whether it was migrated
+ * @throws {SessionDataCorruptError} When the record is malformed, or was
+ *   written by a newer version of this library
+ *
+ * @example
+ * ```ts
+ * const { data, migrated } = migrateSessionData(await storage.get(key), sessionId);
+ * if (migrated) await storage.set(key, data);
+ * ```
+ */
+export function migrateSessionData(
+  record: unknown,
+  sessionId?: string,
+): SessionDataMigrationResult {
+  if (typeof record !== "object" || record === null || Array.isArray(record)) {
+    throw new SessionDataCorruptError("session data is not an object", sessionId);
+  }
+
+  let current = record as StoredRecord;
+  const version = current.version ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new SessionDataCorruptError(`invalid schema version ${String(version)}`, sessionId);
+  }
+  if (version > SESSION_DATA_VERSION) {
+    throw new SessionDataCorruptError(
+      `schema version ${version} is newer than supported version ${SESSION_DATA_VERSION}`,
+      sessionId,
+    );
+  }
+
+  for (let v = version; v < SESSION_DATA_VERSION; v++) {
+    try {
+      current = { ...MIGRATIONS[v]!(current), version: v + 1 };
+    } catch (error) {
+      throw new SessionDataCorruptError(
+        `migration from version ${v} failed`,
+        sessionId,
+        error as Error,
+      );
+    }
+  }
+
+  return {
+    data: validateSessionData(current, sessionId),
+    migrated: version < SESSION_DATA_VERSION,
+  };
+}
+
+/**
+ * Validate a current-version session record.
+ *
+ * @param record - Record to validate
+ * @param sessionId - Session ID, for error messages (optional)
+ * @returns The record typed as {@link SessionData}
+ * @throws {SessionDataCorruptError} When a field is missing or has the wrong type
+ */
+export function validateSessionData(record: StoredRecord, sessionId?: string): SessionData {
+  const fail = (reason: string): never => {
+    throw new SessionDataCorruptError(reason, sessionId);
+  };
+
+  for (const field of ["did", "handle", "pdsUrl", "accessToken", "refreshToken"]) {
+    if (typeof record[field] !== "string") fail(`missing or invalid '${field}'`);
+  }
+  if (!(record.did as string).startsWith("did:")) fail("invalid 'did'");
+  if (!URL.canParse(record.pdsUrl as string)) fail("invalid 'pdsUrl'");
+
+  if (typeof record.tokenExpiresAt !== "number" || !Number.isFinite(record.tokenExpiresAt)) {
+    fail("missing or invalid 'tokenExpiresAt'");
+  }
+
+  if (!isJwk(record.dpopPublicKeyJWK)) fail("missing or invalid 'dpopPublicKeyJWK'");
+  if (record.dpopPrivateKeyJWK !== undefined && !isJwk(record.dpopPrivateKeyJWK)) {
+    fail("invalid 'dpopPrivateKeyJWK'");
+  }
+  if (record.dpopPrivateKeyJWK === undefined && record.dpopKeyId === undefined) {
+    fail("missing DPoP key ('dpopPrivateKeyJWK' or 'dpopKeyId')");
+  }
+
+  for (
+    const field of [
+      "dpopKeyId",
+      "clientKeyId",
+      "scope",
+      "issuer",
+      "tokenEndpoint",
+      "revocationEndpoint",
+    ]
+  ) {
+    if (record[field] !== undefined && typeof record[field] !== "string") {
+      fail(`invalid '${field}'`);
+    }
+  }
+  for (const field of ["createdAt", "refreshTokenIssuedAt"]) {
+    if (record[field] !== undefined && typeof record[field] !== "number") {
+      fail(`invalid '${field}'`);
+    }
+  }
+  if (
+    record.handleVerification !== undefined &&
+    !["verified", "invalid", "unverified"].includes(record.handleVerification as string)
+  ) {
+    fail("invalid 'handleVerification'");
+  }
+
+  return record as unknown as SessionData;
+}
+
+function isJwk(value: unknown): boolean {
+  return typeof value === "object" && value !== null &&
+    typeof (value as { kty?: unknown }).kty === "string";
+}
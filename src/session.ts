@@ -3,12 +3,71 @@
  * @module
  */
 
-import type { OAuthSession, SessionData } from "./types.ts";
-import { importPrivateKeyFromJWK, makeDPoPRequest } from "./dpop.ts";
+import type {
+  FetchFunction,
+  HandleVerificationStatus,
+  IdentityChange,
+  OAuthSession,
+  SessionData,
+} from "./types.ts";
+import { bufferRequestBody, type DPoPSigningKey, makeDPoPRequest } from "./dpop.ts";
+import { type DPoPKeyProvider, dpopKeyReference, JwkDPoPKeyProvider } from "./dpop-keys.ts";
 import { SessionError } from "./errors.ts";
+import { XrpcClient } from "./xrpc.ts";
+import { abortable } from "./timeout.ts";
+import { MemoryNonceStore, type NonceStore } from "./nonce-store.ts";
+import { migrateSessionData } from "./session-schema.ts";
+import {
+  formatScopePermission,
+  parseScope,
+  parseScopePermission,
+  scopeAllows,
+  type ScopeRequest,
+} from "./scope.ts";
 
 export type { SessionData };
 
+/** RequestInit fields copied from a `Request` passed to `makeRequest()` */
+const REQUEST_INIT_FIELDS = [
+  "cache",
+  "credentials",
+  "integrity",
+  "keepalive",
+  "mode",
+  "redirect",
+  "referrer",
+  "referrerPolicy",
+  "signal",
+] as const;
+
+/**
+ * Normalize `fetch`-style input into a URL string and a single RequestInit.
+ *
+ * When the input is a `Request`, its headers, body and options are used as
+ * defaults; fields in `options` take precedence and headers are merged.
+ */
+function resolveRequestInput(
+  input: string | URL | Request,
+  options: RequestInit = {},
+): { url: string; init: RequestInit } {
+  if (!(input instanceof Request)) {
+    return { url: input.toString(), init: options };
+  }
+
+  const init: RequestInit = {};
+  for (const field of REQUEST_INIT_FIELDS) {
+    (init as Record<string, unknown>)[field] = input[field];
+  }
+  if (input.body) {
+    init.body = input.body;
+  }
+
+  const headers = new Headers(input.headers);
+  new Headers(options.headers).forEach((value, name) => headers.set(name, value));
+
+  return { url: input.url, init: { ...init, ...options, headers } };
+}
+
 /**
  * Authenticated session for AT Protocol OAuth.
  *
@@ -47,9 +106,33 @@ export type { SessionData };
  */
 export class Session implements OAuthSession {
   private refreshCallback?: () => Promise<void>;
+  private identityCallback?: () => Promise<IdentityChange | null>;
+  private xrpcClient?: XrpcClient;
+  private nonceStore: NonceStore = new MemoryNonceStore();
+  private dpopKeyProvider: DPoPKeyProvider = new JwkDPoPKeyProvider();
+  private signingKey: Promise<DPoPSigningKey> | undefined;
+  private fetchFn: FetchFunction | undefined;
+  private id: string | undefined;
 
   constructor(private data: SessionData) {}
 
+  /**
+   * ID under which the session is persisted (stored at `session:<sessionId>`).
+   * Set by `OAuthClient.store()` and `OAuthClient.restore()`; undefined for a
+   * session that was never stored.
+   */
+  get sessionId(): string | undefined {
+    return this.id;
+  }
+
+  /**
+   * Set the ID under which the session is persisted.
+   * Sessions managed by an `OAuthClient` get this from `store()` and `restore()`.
+   */
+  setSessionId(sessionId: string): void {
+    this.id = sessionId;
+  }
+
   /**
    * Set a callback for automatic token refresh on 401 responses.
    * The callback should refresh the session tokens and update storage.
@@ -58,6 +141,60 @@ export class Session implements OAuthSession {
     this.refreshCallback = fn;
   }
 
+  /**
+   * Set the callback behind `refreshIdentity()`.
+   * Sessions managed by an `OAuthClient` use `client.refreshIdentity()`.
+   */
+  setIdentityCallback(fn: () => Promise<IdentityChange | null>): void {
+    this.identityCallback = fn;
+  }
+
+  /**
+   * Re-resolve the account's DID document and pick up a changed handle or PDS.
+   *
+   * @returns The detected change, or null if handle and PDS are unchanged
+   * @throws {SessionError} When the session is not managed by an `OAuthClient`
+   * @throws {IssuerMismatchError} When the account moved to a PDS served by a
+   *   different authorization server; the user must sign in again
+   *
+   * @example
+   * ```ts
+   * const change = await session.refreshIdentity();
+   * if (change?.handleChanged) console.log("Now known as", session.handle);
+   * ```
+   */
+  async refreshIdentity(): Promise<IdentityChange | null> {
+    if (!this.identityCallback) {
+      throw new SessionError("refreshIdentity() requires a session managed by an OAuthClient");
+    }
+    return await this.identityCallback();
+  }
+
+  /**
+   * Set the store used to remember DPoP nonces between requests.
+   * Sessions managed by an `OAuthClient` share the client's nonce store.
+   */
+  setNonceStore(store: NonceStore): void {
+    this.nonceStore = store;
+  }
+
+  /**
+   * Set the provider that signs DPoP proofs with the session's key.
+   * Sessions managed by an `OAuthClient` use the client's key provider.
+   */
+  setDPoPKeyProvider(provider: DPoPKeyProvider): void {
+    this.dpopKeyProvider = provider;
+    this.signingKey = undefined;
+  }
+
+  /**
+   * Set the `fetch` implementation used by `makeRequest()` and the XRPC helpers.
+   * Sessions managed by an `OAuthClient` use the client's `fetch` option.
+   */
+  setFetch(fn: FetchFunction): void {
+    this.fetchFn = fn;
+  }
+
   /**
    * User's DID (Decentralized Identifier)
    */
@@ -72,6 +209,14 @@ export class Session implements OAuthSession {
     return this.data.handle;
   }
 
+  /**
+   * Whether the handle was verified to resolve back to the DID.
+   * Unverifiable handles are stored as "handle.invalid".
+   */
+  get handleVerification(): HandleVerificationStatus {
+    return this.data.handleVerification ?? "unverified";
+  }
+
   /**
    * Subject (same as DID for AT Protocol)
    */
@@ -107,6 +252,21 @@ export class Session implements OAuthSession {
     return this.data.refreshToken;
   }
 
+  /**
+   * Typed XRPC helpers resolved relative to the session's PDS.
+   *
+   * @example
+   * ```ts
+   * const profile = await session.xrpc.query("app.bsky.actor.getProfile", {
+   *   actor: session.did,
+   * });
+   * ```
+   */
+  get xrpc(): XrpcClient {
+    this.xrpcClient ??= new XrpcClient(this);
+    return this.xrpcClient;
+  }
+
   /**
    * Check if access token is expired or will expire soon
    */
@@ -122,6 +282,54 @@ export class Session implements OAuthSession {
     return Math.max(0, this.data.tokenExpiresAt - Date.now());
   }
 
+  /**
+   * Issuer of the authorization server that issued the session's tokens.
+   * Undefined for sessions stored before the issuer was recorded.
+   */
+  get issuer(): string | undefined {
+    return this.data.issuer;
+  }
+
+  /**
+   * Scope granted by the authorization server.
+   * Undefined for sessions stored before the granted scope was recorded.
+   */
+  get scope(): string | undefined {
+    return this.data.scope;
+  }
+
+  /**
+   * Check whether a scope token was granted, e.g. `"transition:generic"`.
+   *
+   * Tokens are compared in normalized form, so parameter spelling such as
+   * `repo?collection=x` vs. `repo:x` doesn't matter. Always false when the
+   * granted scope is unknown.
+   *
+   * @param scope - Single scope token
+   */
+  hasScope(scope: string): boolean {
+    if (!this.data.scope) return false;
+    const wanted = formatScopePermission(parseScopePermission(scope));
+    return parseScope(this.data.scope).some((p) => formatScopePermission(p) === wanted);
+  }
+
+  /**
+   * Check whether the granted scope permits an operation, before calling the PDS.
+   * Always false when the granted scope is unknown.
+   *
+   * @param request - Operation to check
+   *
+   * @example
+   * ```ts
+   * if (session.can({ repo: "app.bsky.feed.post", action: "create" })) {
+   *   await session.xrpc.procedure("com.atproto.repo.createRecord", record);
+   * }
+   * ```
+   */
+  can(request: ScopeRequest): boolean {
+    return this.data.scope ? scopeAllows(this.data.scope, request) : false;
+  }
+
   /**
    * Make an authenticated HTTP request using DPoP authentication.
    *
@@ -129,12 +337,15 @@ export class Session implements OAuthSession {
    * This is the primary method for making authenticated AT Protocol API calls.
    *
    * @param method - HTTP method (GET, POST, PUT, DELETE, etc.)
-   * @param url - Target URL for the request
-   * @param options - Optional request configuration
-   * @param options.body - Request body as string
+   * @param input - Target URL, or a `Request` whose headers, body and options are used as defaults
+   * @param options - Optional request configuration; every `RequestInit` field is honored
+   * @param options.body - Request body (string, bytes, Blob, FormData, URLSearchParams or stream).
+   *   Streams are buffered so the request can be replayed on nonce and refresh retries.
    * @param options.headers - Additional headers to include
+   * @param options.signal - Aborts the request, including the nonce and refresh retries
    * @returns Promise resolving to the HTTP response
    * @throws {SessionError} When DPoP request generation fails
+   * @throws The signal's abort reason when the request is cancelled
    *
    * @example GET request
    * ```ts
@@ -160,17 +371,30 @@ export class Session implements OAuthSession {
    *   }
    * );
    * ```
+   *
+   * @example Request with a timeout
+   * ```ts
+   * const response = await session.makeRequest(
+   *   "GET",
+   *   new URL("/xrpc/com.atproto.server.getSession", session.pdsUrl),
+   *   { signal: AbortSignal.timeout(5000) },
+   * );
+   * ```
    */
   async makeRequest(
     method: string,
-    url: string,
+    input: string | URL | Request,
     options?: RequestInit,
   ): Promise<Response> {
+    const { url, init } = resolveRequestInput(input, options);
+
     try {
-      // Import private key for signing
-      const privateKey = await importPrivateKeyFromJWK(
-        this.data.dpopPrivateKeyJWK,
-      );
+      // Buffer stream bodies once so both the nonce retry and the
+      // refresh retry can replay them
+      const body = await bufferRequestBody(init.body);
+      const requestInit: RequestInit = { ...init, ...(body !== undefined ? { body } : {}) };
+
+      const privateKey = await this.getSigningKey();
 
       let response = await makeDPoPRequest(
         method,
@@ -178,32 +402,33 @@ export class Session implements OAuthSession {
         this.data.accessToken,
         privateKey,
         this.data.dpopPublicKeyJWK,
-        options?.body as string,
-        options?.headers,
+        this.nonceStore,
+        requestInit,
+        this.fetchFn,
       );
 
       // Auto-retry on 401 if refresh callback is available
       if (response.status === 401 && this.refreshCallback) {
-        await this.refreshCallback();
-
-        // Re-import key (may have changed after refresh)
-        const refreshedKey = await importPrivateKeyFromJWK(
-          this.data.dpopPrivateKeyJWK,
-        );
+        // The refresh itself keeps running so rotated tokens are not lost
+        await abortable(this.refreshCallback(), init.signal ?? undefined);
+        init.signal?.throwIfAborted();
 
         response = await makeDPoPRequest(
           method,
           url,
           this.data.accessToken,
-          refreshedKey,
+          privateKey,
           this.data.dpopPublicKeyJWK,
-          options?.body as string,
-          options?.headers,
+          this.nonceStore,
+          requestInit,
+          this.fetchFn,
         );
       }
 
       return response;
     } catch (error) {
+      // Surface cancellation the way fetch does
+      if (init.signal?.aborted) throw init.signal.reason;
       throw new SessionError(
         "Failed to make authenticated request",
         error as Error,
@@ -211,6 +436,19 @@ export class Session implements OAuthSession {
     }
   }
 
+  /**
+   * Get the DPoP signing key from the key provider, once per session.
+   */
+  private getSigningKey(): Promise<DPoPSigningKey> {
+    if (!this.signingKey) {
+      this.signingKey = this.dpopKeyProvider.getSigner(dpopKeyReference(this.data));
+      this.signingKey.catch(() => {
+        this.signingKey = undefined;
+      });
+    }
+    return this.signingKey;
+  }
+
   /**
    * Get session data for serialization/storage
    */
@@ -222,7 +460,7 @@ export class Session implements OAuthSession {
    * Create session from stored data
    */
   static fromJSON(data: SessionData): Session {
-    return new Session(data);
+    return new Session(migrateSessionData(data).data);
   }
 
   /**
@@ -232,11 +470,29 @@ export class Session implements OAuthSession {
     accessToken: string;
     refreshToken?: string;
     expiresIn: number;
+    scope?: string | undefined;
   }): void {
     this.data.accessToken = tokens.accessToken;
-    if (tokens.refreshToken) {
+    if (tokens.refreshToken && tokens.refreshToken !== this.data.refreshToken) {
       this.data.refreshToken = tokens.refreshToken;
+      this.data.refreshTokenIssuedAt = Date.now();
+    }
+    if (tokens.scope) {
+      this.data.scope = tokens.scope;
     }
     this.data.tokenExpiresAt = Date.now() + (tokens.expiresIn * 1000);
   }
+
+  /**
+   * Update session with a re-resolved identity (used by `refreshIdentity()`)
+   */
+  updateIdentity(identity: {
+    handle: string;
+    pdsUrl: string;
+    handleVerification: HandleVerificationStatus;
+  }): void {
+    this.data.handle = identity.handle;
+    this.data.pdsUrl = identity.pdsUrl;
+    this.data.handleVerification = identity.handleVerification;
+  }
 }
@@ -31,6 +31,46 @@ export class MemoryStorage implements OAuthStorage {
 
   async get<T = unknown>(key: string): Promise<T | null> {
     await Promise.resolve(); // Satisfy require-await linting rule
+    return this.read<T>(key);
+  }
+
+  async set<T = unknown>(key: string, value: T, options?: { ttl?: number }): Promise<void> {
+    await Promise.resolve(); // Satisfy require-await linting rule
+    this.write(key, value, options);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.resolve(); // Satisfy require-await linting rule
+    this.data.delete(key);
+  }
+
+  async getAndDelete<T = unknown>(key: string): Promise<T | null> {
+    await Promise.resolve(); // Satisfy require-await linting rule
+    const value = this.read<T>(key);
+    this.data.delete(key);
+    return value;
+  }
+
+  async compareAndSet<T = unknown>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: { ttl?: number },
+  ): Promise<boolean> {
+    await Promise.resolve(); // Satisfy require-await linting rule
+    if (JSON.stringify(this.read(key)) !== JSON.stringify(expected)) {
+      return false;
+    }
+    this.write(key, value, options);
+    return true;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    await Promise.resolve(); // Satisfy require-await linting rule
+    return [...this.data.keys()].filter((key) => key.startsWith(prefix) && this.read(key) !== null);
+  }
+
+  private read<T>(key: string): T | null {
     const item = this.data.get(key);
     if (!item) return null;
 
@@ -42,17 +82,11 @@ export class MemoryStorage implements OAuthStorage {
     return item.value as T;
   }
 
-  async set<T = unknown>(key: string, value: T, options?: { ttl?: number }): Promise<void> {
-    await Promise.resolve(); // Satisfy require-await linting rule
+  private write(key: string, value: unknown, options?: { ttl?: number }): void {
     const expiresAt = options?.ttl ? Date.now() + (options.ttl * 1000) : undefined;
     this.data.set(key, { value, ...(expiresAt ? { expiresAt } : {}) });
   }
 
-  async delete(key: string): Promise<void> {
-    await Promise.resolve(); // Satisfy require-await linting rule
-    this.data.delete(key);
-  }
-
   // Utility method for cleanup in tests
   clear(): void {
     this.data.clear();
@@ -101,17 +135,7 @@ export class SQLiteStorage implements OAuthStorage {
   async set<T = unknown>(key: string, value: T, options?: { ttl?: number }): Promise<void> {
     const expiresAt = options?.ttl ? Date.now() + (options.ttl * 1000) : null;
 
-    // Ensure table exists
-    await this.sqlite.execute({
-      sql: `CREATE TABLE IF NOT EXISTS oauth_storage (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        expires_at INTEGER,
-        created_at INTEGER DEFAULT (unixepoch() * 1000)
-      )`,
-      args: [],
-    });
-
+    await this.ensureTable();
     await this.sqlite.execute({
       sql: "INSERT OR REPLACE INTO oauth_storage (key, value, expires_at) VALUES (?, ?, ?)",
       args: [key, JSON.stringify(value), expiresAt],
@@ -124,6 +148,29 @@ export class SQLiteStorage implements OAuthStorage {
       args: [key],
     });
   }
+
+  async list(prefix: string): Promise<string[]> {
+    await this.ensureTable();
+    // instr() instead of LIKE, so "%" and "_" in the prefix need no escaping
+    const result = await this.sqlite.execute({
+      sql: "SELECT key FROM oauth_storage WHERE instr(key, ?) = 1 " +
+        "AND (expires_at IS NULL OR expires_at > ?) ORDER BY key",
+      args: [prefix, Date.now()],
+    });
+    return result.rows.map((row) => row[0]).filter((key) => typeof key === "string");
+  }
+
+  private async ensureTable(): Promise<void> {
+    await this.sqlite.execute({
+      sql: `CREATE TABLE IF NOT EXISTS oauth_storage (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER,
+        created_at INTEGER DEFAULT (unixepoch() * 1000)
+      )`,
+      args: [],
+    });
+  }
 }
 
 /**
@@ -159,4 +206,248 @@ export class LocalStorage implements OAuthStorage {
     await Promise.resolve(); // Satisfy require-await linting rule
     localStorage.removeItem(key);
   }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+
+    // get() drops expired entries
+    const live = await Promise.all(keys.map(async (key) => (await this.get(key)) !== null));
+    return keys.filter((_, i) => live[i]);
+  }
+}
+
+/**
+ * Storage decorator that confines all keys to a namespace.
+ *
+ * Keys are stored as `<namespace>:<key>`, so several clients can share one
+ * backend without their `pkce:` and `session:` keys colliding. The optional
+ * atomic and `list()` methods are exposed only when the underlying storage
+ * has them.
+ *
+ * @example
+ * ```ts
+ * const shared = new SQLiteStorage(sqlite);
+ * const appA = new OAuthClient({ ...configA, storage: new NamespacedStorage(shared, "app-a") });
+ * const appB = new OAuthClient({ ...configB, storage: new NamespacedStorage(shared, "app-b") });
+ * ```
+ */
+export class NamespacedStorage implements OAuthStorage {
+  readonly getAndDelete?: <T = unknown>(key: string) => Promise<T | null>;
+  readonly compareAndSet?: <T = unknown>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: { ttl?: number },
+  ) => Promise<boolean>;
+  readonly list?: (prefix: string) => Promise<string[]>;
+
+  /**
+   * Create a new namespaced storage view.
+   *
+   * @param storage - Underlying storage backend
+   * @param namespace - Namespace prepended to every key
+   */
+  constructor(private readonly storage: OAuthStorage, readonly namespace: string) {
+    if (storage.getAndDelete) {
+      this.getAndDelete = <T>(key: string) => storage.getAndDelete!<T>(this.key(key));
+    }
+    if (storage.compareAndSet) {
+      this.compareAndSet = <T>(
+        key: string,
+        expected: T | null,
+        value: T,
+        options?: { ttl?: number },
+      ) => storage.compareAndSet!<T>(this.key(key), expected, value, options);
+    }
+    if (storage.list) {
+      this.list = async (prefix: string) => {
+        const keys = await storage.list!(this.key(prefix));
+        return keys.map((key) => key.slice(this.namespace.length + 1));
+      };
+    }
+  }
+
+  get<T = unknown>(key: string): Promise<T | null> {
+    return this.storage.get<T>(this.key(key));
+  }
+
+  set<T = unknown>(key: string, value: T, options?: { ttl?: number }): Promise<void> {
+    return this.storage.set(this.key(key), value, options);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.storage.delete(this.key(key));
+  }
+
+  private key(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+}
+
+/** Deno KV key as used by {@link DenoKvStorage} */
+type KvKey = readonly string[];
+
+/**
+ * Atomic operation subset of `Deno.AtomicOperation` used by {@link DenoKvStorage}.
+ */
+export interface KvAtomicOperation {
+  check(...checks: { key: KvKey; versionstamp: string | null }[]): KvAtomicOperation;
+  set(key: KvKey, value: unknown, options?: { expireIn?: number }): KvAtomicOperation;
+  delete(key: KvKey): KvAtomicOperation;
+  commit(): Promise<{ ok: boolean }>;
+}
+
+/**
+ * Subset of the `Deno.Kv` API used by {@link DenoKvStorage}.
+ *
+ * Declared structurally so the module has no dependency on Deno-only types;
+ * a `Deno.Kv` from `Deno.openKv()` satisfies it.
+ */
+export interface KvLike {
+  get<T = unknown>(key: KvKey): Promise<{ value: T | null; versionstamp: string | null }>;
+  set(key: KvKey, value: unknown, options?: { expireIn?: number }): Promise<unknown>;
+  delete(key: KvKey): Promise<void>;
+  atomic(): KvAtomicOperation;
+  list<T = unknown>(
+    selector: { prefix: KvKey; start: KvKey },
+  ): AsyncIterable<{ key: readonly unknown[]; value: T }>;
+}
+
+/**
+ * Options for {@link DenoKvStorage}.
+ */
+export interface DenoKvStorageOptions {
+  /** Key prefix under which all values are stored (default: ["oauth"]) */
+  prefix?: string[];
+}
+
+/**
+ * Stored value with its expiry. Deno KV deletes expired keys eventually, not
+ * immediately, so expiry is also checked on read.
+ * @internal
+ */
+interface KvEntryValue {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * Deno KV storage for Deno Deploy and other multi-isolate deployments.
+ *
+ * TTLs use KV's native `expireIn`, and `getAndDelete()` / `compareAndSet()`
+ * are implemented with atomic versionstamp checks, so PKCE state is consumed
+ * exactly once and concurrent writers can coordinate across isolates.
+ *
+ * @example
+ * ```ts
+ * const kv = await Deno.openKv();
+ * const storage = new DenoKvStorage(kv, { prefix: ["myapp", "oauth"] });
+ *
+ * const client = new OAuthClient({ clientId, redirectUri, storage });
+ * ```
+ */
+export class DenoKvStorage implements OAuthStorage {
+  private readonly prefix: string[];
+
+  /**
+   * Create a new Deno KV storage.
+   *
+   * @param kv - Deno KV database (e.g., from `Deno.openKv()`)
+   * @param options - Key prefix options
+   */
+  constructor(private readonly kv: KvLike, options: DenoKvStorageOptions = {}) {
+    this.prefix = options.prefix ?? ["oauth"];
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const { value } = await this.read(key);
+    return value as T | null;
+  }
+
+  async set<T = unknown>(key: string, value: T, options?: { ttl?: number }): Promise<void> {
+    const { entry, expireIn } = this.entry(value, options);
+    await this.kv.set(this.key(key), entry, expireIn ? { expireIn } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(this.key(key));
+  }
+
+  async getAndDelete<T = unknown>(key: string): Promise<T | null> {
+    while (true) {
+      const { value, versionstamp } = await this.read(key);
+      if (versionstamp === null) return null;
+
+      const { ok } = await this.kv.atomic()
+        .check({ key: this.key(key), versionstamp })
+        .delete(this.key(key))
+        .commit();
+      if (ok) return value as T | null;
+      // Another isolate changed the key in between — re-read and retry
+    }
+  }
+
+  async compareAndSet<T = unknown>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: { ttl?: number },
+  ): Promise<boolean> {
+    const current = await this.read(key);
+    if (JSON.stringify(current.value) !== JSON.stringify(expected)) {
+      return false;
+    }
+
+    const { entry, expireIn } = this.entry(value, options);
+    const { ok } = await this.kv.atomic()
+      .check({ key: this.key(key), versionstamp: current.versionstamp })
+      .set(this.key(key), entry, expireIn ? { expireIn } : undefined)
+      .commit();
+    return ok;
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    // Keys are ordered, so matches form one run starting at the prefix itself
+    const entries = this.kv.list<KvEntryValue>({
+      prefix: this.prefix,
+      start: this.key(prefix),
+    });
+    for await (const { key, value } of entries) {
+      const name = key[this.prefix.length];
+      if (typeof name !== "string" || !name.startsWith(prefix)) break;
+      if (value.expiresAt === undefined || Date.now() < value.expiresAt) keys.push(name);
+    }
+    return keys;
+  }
+
+  private key(key: string): KvKey {
+    return [...this.prefix, key];
+  }
+
+  private entry(value: unknown, options?: { ttl?: number }): {
+    entry: KvEntryValue;
+    expireIn?: number;
+  } {
+    if (!options?.ttl) return { entry: { value } };
+    const expireIn = options.ttl * 1000;
+    return { entry: { value, expiresAt: Date.now() + expireIn }, expireIn };
+  }
+
+  /**
+   * Read a value and the versionstamp it was read at. Expired values read as
+   * null but keep their versionstamp, so atomic checks still see them.
+   */
+  private async read(key: string): Promise<{ value: unknown; versionstamp: string | null }> {
+    const result = await this.kv.get<KvEntryValue>(this.key(key));
+    const entry = result.value;
+    if (!entry || (entry.expiresAt !== undefined && Date.now() >= entry.expiresAt)) {
+      return { value: null, versionstamp: result.versionstamp };
+    }
+    return { value: entry.value, versionstamp: result.versionstamp };
+  }
 }
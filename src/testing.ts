@@ -0,0 +1,705 @@
+/**
+ * @fileoverview In-process mock AT Protocol authorization server and PDS for tests
+ * @module
+ */
+
+import { base64url, calculateJwkThumbprint } from "@panva/jose";
+import { HandleResolutionError } from "./errors.ts";
+import { CLIENT_ASSERTION_TYPE } from "./client-auth.ts";
+import type { HandleResolver } from "./types.ts";
+
+/** Accepted clock skew for DPoP proof `iat` claims, in seconds */
+const DPOP_MAX_AGE = 300;
+
+/** Lifetime of pushed authorization requests and authorization codes, in seconds */
+const REQUEST_TTL = 600;
+
+/**
+ * Account hosted by a {@link MockAtprotoServer}.
+ */
+export interface MockAccount {
+  /** Account DID (a generated `did:plc` unless given) */
+  did: string;
+  /** Account handle */
+  handle: string;
+}
+
+/**
+ * Context passed to custom XRPC method handlers.
+ */
+export interface MockXrpcContext {
+  /** Account the access token belongs to */
+  account: MockAccount;
+  /** Scope granted to the access token */
+  scope: string;
+}
+
+/**
+ * Handler for a custom XRPC method on the mock PDS.
+ */
+export type MockXrpcHandler = (
+  request: Request,
+  context: MockXrpcContext,
+) => Response | Promise<Response>;
+
+/**
+ * Options for {@link MockAtprotoServer}.
+ */
+export interface MockAtprotoServerOptions {
+  /** PDS origin (default: "https://pds.test") */
+  pdsUrl?: string;
+
+  /** Authorization server issuer (default: the PDS origin, like a self-hosted PDS) */
+  issuer?: string;
+
+  /** PLC directory origin serving the accounts' DID documents (default: "https://plc.directory") */
+  plcDirectoryUrl?: string;
+
+  /** Access token lifetime in seconds (default: 3600) */
+  accessTokenTtl?: number;
+}
+
+/**
+ * Options for {@link MockAtprotoServer.approve}.
+ */
+export interface MockApproveOptions {
+  /** Handle or DID of the account that signs in (default: the login hint, else the first account) */
+  account?: string;
+
+  /** Deny the request instead, redirecting with `error=access_denied` */
+  deny?: boolean;
+}
+
+interface PushedRequest {
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  state: string | null;
+  codeChallenge: string;
+  loginHint: string | null;
+  expiresAt: number;
+}
+
+interface AuthorizationCode {
+  request: PushedRequest;
+  did: string;
+  expiresAt: number;
+}
+
+interface AccessTokenRecord {
+  did: string;
+  scope: string;
+  jkt: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+interface RefreshTokenRecord {
+  did: string;
+  scope: string;
+  jkt: string;
+  clientId: string;
+}
+
+/**
+ * Mock AT Protocol authorization server, PDS and PLC directory for tests.
+ *
+ * Implements protected resource and authorization server metadata, PAR,
+ * authorization (auto-approved, or via {@link approve}), the token endpoint
+ * with DPoP nonce challenges and refresh token rotation, revocation, DID
+ * documents, and XRPC endpoints that verify DPoP-bound access tokens.
+ * Client authentication is not verified beyond `client_id`.
+ *
+ * Use {@link fetch} as a drop-in `fetch`, or {@link install} it globally for
+ * the duration of a test. {@link handler} also works with `Deno.serve()`, but
+ * `OAuthClient` only accepts HTTPS endpoints, so serve it behind TLS.
+ *
+ * @example
+ * ```ts
+ * const server = new MockAtprotoServer();
+ * const alice = server.createAccount({ handle: "alice.test" });
+ * const client = new OAuthClient({
+ *   clientId: "https://app.test/client-metadata.json",
+ *   redirectUri: "https://app.test/oauth/callback",
+ *   storage: new MemoryStorage(),
+ *   handleResolver: server.handleResolver,
+ * });
+ *
+ * const uninstall = server.install();
+ * try {
+ *   const authUrl = await client.authorize(alice.handle);
+ *   const { session } = await client.callback(await server.approve(authUrl));
+ *   const me = await session.xrpc.query("com.atproto.server.getSession");
+ * } finally {
+ *   uninstall();
+ * }
+ * ```
+ */
+export class MockAtprotoServer {
+  /** PDS origin */
+  readonly pdsUrl: string;
+
+  /** Authorization server issuer */
+  readonly issuer: string;
+
+  /** PLC directory origin */
+  readonly plcDirectoryUrl: string;
+
+  /** Handle resolver for the hosted accounts, for `OAuthClientConfig.handleResolver` */
+  readonly handleResolver: HandleResolver;
+
+  private readonly accessTokenTtl: number;
+  private readonly accounts = new Map<string, MockAccount>();
+  private readonly xrpcMethods = new Map<string, MockXrpcHandler>();
+  private readonly pushedRequests = new Map<string, PushedRequest>();
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly accessTokens = new Map<string, AccessTokenRecord>();
+  private readonly refreshTokens = new Map<string, RefreshTokenRecord>();
+  private readonly usedRefreshTokens = new Set<string>();
+  private readonly seenProofs = new Set<string>();
+  private nonce = crypto.randomUUID();
+
+  /**
+   * Create a mock server.
+   *
+   * @param options - Server options
+   */
+  constructor(options: MockAtprotoServerOptions = {}) {
+    this.pdsUrl = new URL(options.pdsUrl ?? "https://pds.test").origin;
+    this.issuer = new URL(options.issuer ?? this.pdsUrl).origin;
+    this.plcDirectoryUrl = new URL(options.plcDirectoryUrl ?? "https://plc.directory").origin;
+    this.accessTokenTtl = options.accessTokenTtl ?? 3600;
+
+    this.handleResolver = {
+      resolve: (handle) => {
+        const account = this.findAccount(handle);
+        if (!account) return Promise.reject(new HandleResolutionError(handle));
+        return Promise.resolve({ did: account.did, pdsUrl: this.pdsUrl });
+      },
+    };
+
+    this.xrpcMethods.set(
+      "com.atproto.server.getSession",
+      (_request, { account }) =>
+        Response.json({ did: account.did, handle: account.handle, active: true }),
+    );
+  }
+
+  /**
+   * Serve a request. Compatible with `Deno.serve()`.
+   */
+  readonly handler = (request: Request): Promise<Response> => this.handle(request);
+
+  /**
+   * `fetch`-compatible function backed by {@link handler}.
+   *
+   * Requests to origins the server doesn't serve fail like an unreachable
+   * host, so tests never touch the network. Redirects are not followed.
+   */
+  readonly fetch = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const origin = new URL(request.url).origin;
+    if (origin !== this.pdsUrl && origin !== this.issuer && origin !== this.plcDirectoryUrl) {
+      return Promise.reject(new TypeError(`MockAtprotoServer does not serve ${origin}`));
+    }
+    return this.handle(request);
+  };
+
+  /**
+   * Replace `globalThis.fetch` with {@link fetch}.
+   *
+   * @returns Function that restores the previous `fetch`
+   */
+  install(): () => void {
+    const original = globalThis.fetch;
+    globalThis.fetch = this.fetch;
+    return () => {
+      globalThis.fetch = original;
+    };
+  }
+
+  /**
+   * Host a new account on the PDS.
+   *
+   * @param account - Handle, and optionally a DID (default: a random `did:plc`)
+   * @returns The created account
+   */
+  createAccount(account: { handle: string; did?: string }): MockAccount {
+    const created = { did: account.did ?? randomPlcDid(), handle: account.handle };
+    this.accounts.set(created.did, created);
+    return created;
+  }
+
+  /**
+   * Change an account's handle, as seen by handle resolution and its DID document.
+   *
+   * @param did - Account DID
+   * @param handle - New handle
+   */
+  updateHandle(did: string, handle: string): void {
+    const account = this.accounts.get(did);
+    if (!account) throw new Error(`Unknown account ${did}`);
+    account.handle = handle;
+  }
+
+  /**
+   * Register a handler for an XRPC method on the PDS.
+   * `com.atproto.server.getSession` is built in.
+   *
+   * @param nsid - Method NSID
+   * @param handler - Called with the verified request and token context
+   */
+  setXrpcHandler(nsid: string, handler: MockXrpcHandler): void {
+    this.xrpcMethods.set(nsid, handler);
+  }
+
+  /**
+   * Complete an authorization request the way a user signing in would.
+   *
+   * @param authorizationUrl - URL returned by `OAuthClient.authorize()`
+   * @param options - Account to sign in as, or deny the request
+   * @returns Callback parameters for `OAuthClient.callback()`
+   * @throws {Error} When the authorization request is unknown or expired
+   */
+  async approve(
+    authorizationUrl: string | URL,
+    options: MockApproveOptions = {},
+  ): Promise<URLSearchParams> {
+    const url = new URL(authorizationUrl);
+    const result = this.completeAuthorization(url.searchParams, options);
+    if (result instanceof Response) {
+      throw new Error(`Authorization request rejected: ${await result.text()}`);
+    }
+    return result.searchParams;
+  }
+
+  /**
+   * Issue a new DPoP nonce, so the next request of every client is challenged.
+   */
+  rotateNonce(): void {
+    this.nonce = crypto.randomUUID();
+  }
+
+  /**
+   * Expire all issued access tokens, so the next PDS request gets a 401.
+   */
+  expireAccessTokens(): void {
+    for (const record of this.accessTokens.values()) {
+      record.expiresAt = 0;
+    }
+  }
+
+  /**
+   * Whether an access or refresh token is currently valid (not expired,
+   * rotated or revoked).
+   *
+   * @param token - Access or refresh token
+   */
+  isTokenActive(token: string): boolean {
+    const access = this.accessTokens.get(token);
+    if (access) return access.expiresAt > Date.now();
+    return this.refreshTokens.has(token);
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const method = request.method;
+
+    if (url.origin === this.pdsUrl) {
+      if (method === "GET" && url.pathname === "/.well-known/oauth-protected-resource") {
+        return Response.json({
+          resource: this.pdsUrl,
+          authorization_servers: [this.issuer],
+          bearer_methods_supported: ["header"],
+        });
+      }
+      if (url.pathname.startsWith("/xrpc/")) {
+        return await this.handleXrpc(request, url.pathname.slice("/xrpc/".length));
+      }
+    }
+
+    if (url.origin === this.issuer) {
+      if (method === "GET" && url.pathname === "/.well-known/oauth-authorization-server") {
+        return Response.json(this.authServerMetadata());
+      }
+      if (method === "POST" && url.pathname === "/oauth/par") return await this.handlePar(request);
+      if (method === "GET" && url.pathname === "/oauth/authorize") {
+        const result = this.completeAuthorization(url.searchParams, {});
+        return result instanceof Response ? result : Response.redirect(result, 302);
+      }
+      if (method === "POST" && url.pathname === "/oauth/token") {
+        return await this.handleToken(request);
+      }
+      if (method === "POST" && url.pathname === "/oauth/revoke") {
+        return await this.handleRevoke(request);
+      }
+    }
+
+    if (url.origin === this.plcDirectoryUrl && method === "GET") {
+      const account = this.accounts.get(decodeURIComponent(url.pathname.slice(1)));
+      if (account) return Response.json(this.didDocument(account));
+    }
+
+    return Response.json({ error: "NotFound" }, { status: 404 });
+  }
+
+  private authServerMetadata(): Record<string, unknown> {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/oauth/authorize`,
+      token_endpoint: `${this.issuer}/oauth/token`,
+      pushed_authorization_request_endpoint: `${this.issuer}/oauth/par`,
+      revocation_endpoint: `${this.issuer}/oauth/revoke`,
+      require_pushed_authorization_requests: true,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: ["none", "private_key_jwt"],
+      dpop_signing_alg_values_supported: ["ES256"],
+      scopes_supported: ["atproto", "transition:generic", "transition:chat.bsky"],
+      authorization_response_iss_parameter_supported: true,
+      client_id_metadata_document_supported: true,
+    };
+  }
+
+  private didDocument(account: MockAccount): Record<string, unknown> {
+    return {
+      "@context": ["https://www.w3.org/ns/did/v1"],
+      id: account.did,
+      alsoKnownAs: [`at://${account.handle}`],
+      service: [{
+        id: "#atproto_pds",
+        type: "AtprotoPersonalDataServer",
+        serviceEndpoint: this.pdsUrl,
+      }],
+    };
+  }
+
+  private async handlePar(request: Request): Promise<Response> {
+    const params = new URLSearchParams(await request.text());
+    const invalid = checkClientAuth(params) ??
+      requireParams(params, ["redirect_uri", "scope", "code_challenge"]);
+    if (invalid) return invalid;
+
+    if (params.get("response_type") !== "code") {
+      return oauthError("unsupported_response_type", "response_type must be 'code'");
+    }
+    if (params.get("code_challenge_method") !== "S256") {
+      return oauthError("invalid_request", "code_challenge_method must be 'S256'");
+    }
+    if (!params.get("scope")!.split(" ").includes("atproto")) {
+      return oauthError("invalid_scope", "scope must include 'atproto'");
+    }
+
+    const requestUri = `urn:ietf:params:oauth:request_uri:req-${crypto.randomUUID()}`;
+    this.pushedRequests.set(requestUri, {
+      clientId: params.get("client_id")!,
+      redirectUri: params.get("redirect_uri")!,
+      scope: params.get("scope")!,
+      state: params.get("state"),
+      codeChallenge: params.get("code_challenge")!,
+      loginHint: params.get("login_hint"),
+      expiresAt: Date.now() + REQUEST_TTL * 1000,
+    });
+
+    return Response.json({ request_uri: requestUri, expires_in: REQUEST_TTL }, { status: 201 });
+  }
+
+  /**
+   * Resolve an authorization request to the client's redirect URL, or an
+   * error response when the request itself is invalid.
+   */
+  private completeAuthorization(
+    params: URLSearchParams,
+    options: MockApproveOptions,
+  ): URL | Response {
+    const requestUri = params.get("request_uri") ?? "";
+    const pushed = this.pushedRequests.get(requestUri);
+    if (!pushed || pushed.expiresAt < Date.now()) {
+      return oauthError("invalid_request", "unknown or expired request_uri");
+    }
+    if (params.get("client_id") !== pushed.clientId) {
+      return oauthError("invalid_request", "client_id does not match the pushed request");
+    }
+    this.pushedRequests.delete(requestUri);
+
+    const redirect = new URL(pushed.redirectUri);
+    if (pushed.state !== null) redirect.searchParams.set("state", pushed.state);
+    redirect.searchParams.set("iss", this.issuer);
+
+    const hint = options.account ?? pushed.loginHint;
+    const account = hint ? this.findAccount(hint) : this.accounts.values().next().value;
+    if (options.deny || !account) {
+      redirect.searchParams.set("error", "access_denied");
+      redirect.searchParams.set(
+        "error_description",
+        options.deny ? "User denied the request" : "No matching account",
+      );
+      return redirect;
+    }
+
+    const code = `mock-code-${crypto.randomUUID()}`;
+    this.codes.set(code, {
+      request: pushed,
+      did: account.did,
+      expiresAt: Date.now() + REQUEST_TTL * 1000,
+    });
+    redirect.searchParams.set("code", code);
+    return redirect;
+  }
+
+  private async handleToken(request: Request): Promise<Response> {
+    const proof = await this.verifyDPoP(request);
+    if (proof instanceof Response) return proof;
+
+    const params = new URLSearchParams(await request.text());
+    const invalid = checkClientAuth(params);
+    if (invalid) return this.withNonce(invalid);
+    const clientId = params.get("client_id")!;
+
+    switch (params.get("grant_type")) {
+      case "authorization_code": {
+        const code = this.codes.get(params.get("code") ?? "");
+        this.codes.delete(params.get("code") ?? "");
+        if (!code || code.expiresAt < Date.now() || code.request.clientId !== clientId) {
+          return this.withNonce(oauthError("invalid_grant", "invalid authorization code"));
+        }
+        if (params.get("redirect_uri") !== code.request.redirectUri) {
+          return this.withNonce(oauthError("invalid_grant", "redirect_uri mismatch"));
+        }
+        const verifier = params.get("code_verifier") ?? "";
+        if (await sha256(verifier) !== code.request.codeChallenge) {
+          return this.withNonce(oauthError("invalid_grant", "PKCE verification failed"));
+        }
+        return this.withNonce(
+          this.issueTokens({ did: code.did, scope: code.request.scope, jkt: proof, clientId }),
+        );
+      }
+
+      case "refresh_token": {
+        const token = params.get("refresh_token") ?? "";
+        if (this.usedRefreshTokens.has(token)) {
+          return this.withNonce(oauthError("invalid_grant", "refresh token replayed"));
+        }
+        const record = this.refreshTokens.get(token);
+        if (!record || record.clientId !== clientId) {
+          return this.withNonce(oauthError("invalid_grant", "invalid refresh token"));
+        }
+        if (record.jkt !== proof) {
+          return this.withNonce(oauthError("invalid_grant", "DPoP key mismatch"));
+        }
+        this.revokeRefreshToken(token);
+        this.usedRefreshTokens.add(token);
+        return this.withNonce(this.issueTokens(record));
+      }
+
+      default:
+        return this.withNonce(oauthError("unsupported_grant_type", "unsupported grant_type"));
+    }
+  }
+
+  private issueTokens(grant: RefreshTokenRecord): Response {
+    const accessToken = `mock-at-${crypto.randomUUID()}`;
+    const refreshToken = `mock-rt-${crypto.randomUUID()}`;
+    this.refreshTokens.set(refreshToken, grant);
+    this.accessTokens.set(accessToken, {
+      did: grant.did,
+      scope: grant.scope,
+      jkt: grant.jkt,
+      refreshToken,
+      expiresAt: Date.now() + this.accessTokenTtl * 1000,
+    });
+
+    return Response.json({
+      access_token: accessToken,
+      token_type: "DPoP",
+      expires_in: this.accessTokenTtl,
+      refresh_token: refreshToken,
+      scope: grant.scope,
+      sub: grant.did,
+    });
+  }
+
+  private async handleRevoke(request: Request): Promise<Response> {
+    const params = new URLSearchParams(await request.text());
+    const invalid = checkClientAuth(params) ?? requireParams(params, ["token"]);
+    if (invalid) return invalid;
+
+    // RFC 7009: unknown tokens are not an error
+    const token = params.get("token")!;
+    this.accessTokens.delete(token);
+    this.revokeRefreshToken(token);
+    return new Response(null, { status: 200 });
+  }
+
+  private revokeRefreshToken(refreshToken: string): void {
+    this.refreshTokens.delete(refreshToken);
+    for (const [accessToken, record] of this.accessTokens) {
+      if (record.refreshToken === refreshToken) this.accessTokens.delete(accessToken);
+    }
+  }
+
+  private async handleXrpc(request: Request, nsid: string): Promise<Response> {
+    const authorization = request.headers.get("Authorization") ?? "";
+    if (!authorization.startsWith("DPoP ")) {
+      return xrpcAuthError("AuthenticationRequired", "DPoP access token required");
+    }
+    const accessToken = authorization.slice("DPoP ".length);
+
+    const proof = await this.verifyDPoP(request, accessToken);
+    if (proof instanceof Response) return proof;
+
+    const record = this.accessTokens.get(accessToken);
+    if (!record || record.expiresAt <= Date.now()) {
+      return this.withNonce(xrpcAuthError("InvalidToken", "access token is invalid or expired"));
+    }
+    if (record.jkt !== proof) {
+      return this.withNonce(xrpcAuthError("InvalidToken", "access token is bound to another key"));
+    }
+
+    const handler = this.xrpcMethods.get(nsid);
+    const account = this.accounts.get(record.did);
+    if (!handler || !account) {
+      return this.withNonce(
+        Response.json(
+          { error: "MethodNotImplemented", message: `${nsid} is not implemented` },
+          { status: 501 },
+        ),
+      );
+    }
+    return this.withNonce(await handler(request, { account, scope: record.scope }));
+  }
+
+  /**
+   * Verify a request's DPoP proof (RFC 9449).
+   *
+   * @returns JWK thumbprint of the proof key, or the error response to send
+   */
+  private async verifyDPoP(request: Request, accessToken?: string): Promise<string | Response> {
+    // Resource servers signal DPoP errors with 401, authorization servers with 400
+    const fail = (error: string, description: string): Response =>
+      this.withNonce(
+        accessToken === undefined
+          ? oauthError(error, description)
+          : Response.json({ error, message: description }, {
+            status: 401,
+            headers: { "WWW-Authenticate": `DPoP error="${error}"` },
+          }),
+      );
+
+    const proof = request.headers.get("DPoP");
+    const parts = proof?.split(".") ?? [];
+    if (parts.length !== 3) return fail("invalid_dpop_proof", "missing or malformed DPoP proof");
+
+    let header: { typ?: unknown; alg?: unknown; jwk?: JsonWebKey };
+    let payload: Record<string, unknown>;
+    try {
+      header = JSON.parse(new TextDecoder().decode(base64url.decode(parts[0]!)));
+      payload = JSON.parse(new TextDecoder().decode(base64url.decode(parts[1]!)));
+    } catch {
+      return fail("invalid_dpop_proof", "undecodable DPoP proof");
+    }
+
+    const jwk = header.jwk;
+    if (
+      header.typ !== "dpop+jwt" || header.alg !== "ES256" ||
+      jwk?.kty !== "EC" || jwk.crv !== "P-256" || !jwk.x || !jwk.y || jwk.d !== undefined
+    ) {
+      return fail("invalid_dpop_proof", "DPoP proof must be an ES256 dpop+jwt with a public jwk");
+    }
+
+    try {
+      const key = await crypto.subtle.importKey(
+        "jwk",
+        { kty: "EC", crv: "P-256", x: jwk.x, y: jwk.y },
+        { name: "ECDSA", namedCurve: "P-256" },
+        false,
+        ["verify"],
+      );
+      const valid = await crypto.subtle.verify(
+        { name: "ECDSA", hash: "SHA-256" },
+        key,
+        new Uint8Array(base64url.decode(parts[2]!)),
+        new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      );
+      if (!valid) return fail("invalid_dpop_proof", "invalid DPoP proof signature");
+    } catch {
+      return fail("invalid_dpop_proof", "invalid DPoP proof key");
+    }
+
+    const url = new URL(request.url);
+    if (payload.htm !== request.method || payload.htu !== `${url.origin}${url.pathname}`) {
+      return fail("invalid_dpop_proof", "DPoP proof htm/htu mismatch");
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.iat !== "number" || Math.abs(now - payload.iat) > DPOP_MAX_AGE) {
+      return fail("invalid_dpop_proof", "DPoP proof is too old");
+    }
+    if (typeof payload.jti !== "string" || this.seenProofs.has(payload.jti)) {
+      return fail("invalid_dpop_proof", "DPoP proof replayed");
+    }
+    if (accessToken !== undefined && payload.ath !== await sha256(accessToken)) {
+      return fail("invalid_dpop_proof", "DPoP proof ath mismatch");
+    }
+    if (payload.nonce !== this.nonce) {
+      return fail("use_dpop_nonce", "Authorization server requires nonce in DPoP proof");
+    }
+
+    this.seenProofs.add(payload.jti);
+    return await calculateJwkThumbprint({ kty: "EC", crv: "P-256", x: jwk.x, y: jwk.y });
+  }
+
+  private withNonce(response: Response): Response {
+    // Copy, since responses from custom XRPC handlers may have immutable headers
+    const headers = new Headers(response.headers);
+    headers.set("DPoP-Nonce", this.nonce);
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private findAccount(handleOrDid: string): MockAccount | undefined {
+    return this.accounts.get(handleOrDid) ??
+      [...this.accounts.values()].find((account) => account.handle === handleOrDid);
+  }
+}
+
+function oauthError(error: string, description: string): Response {
+  return Response.json({ error, error_description: description }, { status: 400 });
+}
+
+function xrpcAuthError(error: string, message: string): Response {
+  return Response.json({ error, message }, {
+    status: 401,
+    headers: { "WWW-Authenticate": `DPoP error="invalid_token"` },
+  });
+}
+
+function requireParams(params: URLSearchParams, names: string[]): Response | undefined {
+  const missing = names.find((name) => !params.get(name));
+  return missing ? oauthError("invalid_request", `missing ${missing}`) : undefined;
+}
+
+function checkClientAuth(params: URLSearchParams): Response | undefined {
+  if (!params.get("client_id")) return oauthError("invalid_client", "missing client_id");
+  if (
+    params.has("client_assertion") &&
+    params.get("client_assertion_type") !== CLIENT_ASSERTION_TYPE
+  ) {
+    return oauthError("invalid_client", "unsupported client_assertion_type");
+  }
+  return undefined;
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return base64url.encode(new Uint8Array(digest));
+}
+
+function randomPlcDid(): string {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz234567";
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `did:plc:${Array.from(bytes, (byte) => alphabet[byte % 32]).join("")}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Per-phase timeouts and cancellation for OAuth network operations
+ * @module
+ */
+
+import { TimeoutError } from "./errors.ts";
+import type { FetchFunction, TimeoutPhase } from "./types.ts";
+
+/**
+ * Run one network phase of the OAuth flow with a timeout.
+ *
+ * `run` receives a signal that aborts when the phase times out or the caller's
+ * signal aborts; pass it on so pending requests are cancelled. The returned
+ * promise settles as soon as either happens, even if `run` ignores the signal.
+ * The timer is always cleared when the phase ends.
+ *
+ * @param phase - Phase reported in the {@link TimeoutError}
+ * @param timeoutMs - Timeout in milliseconds, `0` to wait indefinitely
+ * @param signal - Caller's abort signal (optional)
+ * @param run - Phase operation
+ * @returns Promise resolving to the result of `run`
+ * @throws {TimeoutError} When the phase does not complete within `timeoutMs`
+ * @throws The signal's abort reason when the caller aborts
+ * @internal
+ *
+ * @example
+ * ```ts
+ * const response = await withTimeout(
+ *   "par",
+ *   10_000,
+ *   options.signal,
+ *   (signal) => fetch(parEndpoint, { method: "POST", body, signal }),
+ * );
+ * ```
+ */
+export async function withTimeout<T>(
+  phase: TimeoutPhase,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new TimeoutError(phase, timeoutMs)), timeoutMs)
+    : undefined;
+  const phaseSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+
+  try {
+    return await abortable(run(phaseSignal), phaseSignal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Stop waiting for a promise when a signal aborts.
+ *
+ * The underlying operation is not cancelled; only the returned promise
+ * rejects early, with the signal's abort reason. Used where an operation is
+ * shared with other callers and must run to completion.
+ *
+ * @param promise - Promise to wait for
+ * @param signal - Abort signal (optional)
+ * @returns Promise settling like `promise`, or rejecting when `signal` aborts
+ * @internal
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Bind a signal to every request made through a `fetch` function.
+ *
+ * A signal already present in a request's `init` still applies; the request
+ * aborts when either signal does.
+ *
+ * @param fetchFn - `fetch` implementation to wrap
+ * @param signal - Signal to add to each request
+ * @returns `fetch` function that passes `signal` along
+ * @internal
+ */
+export function fetchWithSignal(fetchFn: FetchFunction, signal: AbortSignal): FetchFunction {
+  return (input, init) =>
+    fetchFn(input, {
+      ...init,
+      signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+    });
+}
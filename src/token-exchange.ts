@@ -4,13 +4,16 @@
  */
 
 import {
+  type DPoPSigningKey,
   generateDPoPProof,
   getCachedNonce,
-  importPrivateKeyFromJWK,
   updateNonceCache,
 } from "./dpop.ts";
 import { TokenExchangeError } from "./errors.ts";
 import type { Logger } from "./logger.ts";
+import type { ClientAuthProvider } from "./client-auth.ts";
+import type { NonceStore } from "./nonce-store.ts";
+import type { FetchFunction } from "./types.ts";
 
 /**
  * Token response from OAuth server.
@@ -31,11 +34,15 @@ export interface TokenResponse {
  * with the nonce when the server returns a 400 status with DPoP-Nonce header.
  *
  * @param tokenUrl - Token endpoint URL
- * @param body - Request body as URLSearchParams
- * @param privateKey - DPoP private key for signing
+ * @param body - Request body as URLSearchParams (without client authentication)
+ * @param clientAuth - Provider of client authentication parameters, called per attempt
+ * @param privateKey - DPoP private key or signer
  * @param publicKeyJWK - DPoP public key JWK
  * @param accessToken - Optional access token for ath claim
+ * @param nonceStore - Store for DPoP nonces issued by the token endpoint origin
  * @param logger - Logger instance for debugging
+ * @param fetchFn - `fetch` implementation (default: the global `fetch`); bind
+ *   a signal to it to cancel or time out the request
  * @returns Promise resolving to token response
  * @throws {TokenExchangeError} When token request fails
  * @internal
@@ -43,14 +50,16 @@ export interface TokenResponse {
 async function fetchWithDPoPRetry(
   tokenUrl: string,
   body: URLSearchParams,
-  privateKey: CryptoKey,
+  clientAuth: ClientAuthProvider,
+  privateKey: DPoPSigningKey,
   publicKeyJWK: JsonWebKey,
   accessToken: string | undefined,
+  nonceStore: NonceStore,
   logger: Logger,
-  timeoutMs?: number,
+  fetchFn: FetchFunction = fetch,
 ): Promise<Response> {
-  // Check nonce cache for this origin
-  const cachedNonce = getCachedNonce(tokenUrl);
+  // Check nonce store for this origin
+  const cachedNonce = await getCachedNonce(nonceStore, tokenUrl);
 
   // Create initial DPoP proof (with cached nonce if available)
   let dpopProof = await generateDPoPProof(
@@ -64,25 +73,25 @@ async function fetchWithDPoPRetry(
 
   logger.debug("Making token request with DPoP proof", { tokenUrl });
 
-  const fetchOptions = (dpop: string): RequestInit => {
-    const opts: RequestInit = {
+  const fetchOptions = async (dpop: string): Promise<RequestInit> => {
+    // Fresh client authentication per attempt so assertions are never replayed
+    const requestBody = new URLSearchParams(body);
+    for (const [key, value] of Object.entries(await clientAuth())) {
+      requestBody.set(key, value);
+    }
+
+    return {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
         "DPoP": dpop,
       },
-      body,
+      body: requestBody,
     };
-    if (timeoutMs) {
-      const controller = new AbortController();
-      setTimeout(() => controller.abort(), timeoutMs);
-      opts.signal = controller.signal;
-    }
-    return opts;
   };
 
-  let response = await fetch(tokenUrl, fetchOptions(dpopProof));
-  updateNonceCache(tokenUrl, response);
+  let response = await fetchFn(tokenUrl, await fetchOptions(dpopProof));
+  await updateNonceCache(nonceStore, tokenUrl, response);
 
   // Handle DPoP nonce requirement - AT Protocol uses 400 status
   if (!response.ok && response.status === 400) {
@@ -100,8 +109,8 @@ async function fetchWithDPoPRetry(
         nonce,
       );
 
-      response = await fetch(tokenUrl, fetchOptions(dpopProof));
-      updateNonceCache(tokenUrl, response);
+      response = await fetchFn(tokenUrl, await fetchOptions(dpopProof));
+      await updateNonceCache(nonceStore, tokenUrl, response);
     }
   }
 
@@ -114,58 +123,63 @@ async function fetchWithDPoPRetry(
  * Performs the OAuth 2.0 authorization code exchange with PKCE verification
  * and DPoP token binding. Automatically handles DPoP nonce challenges.
  *
- * @param authServer - Authorization server base URL
+ * @param tokenEndpoint - Token endpoint advertised in the authorization server metadata
  * @param code - Authorization code from callback
  * @param codeVerifier - PKCE code verifier
- * @param clientId - OAuth client ID
+ * @param clientAuth - Provider of client authentication parameters
  * @param redirectUri - Redirect URI used in authorization
  * @param dpopKeys - DPoP key pair for token binding
+ * @param nonceStore - Store for DPoP nonces
  * @param logger - Logger instance
+ * @param fetchFn - `fetch` implementation (optional, defaults to the global `fetch`)
  * @returns Promise resolving to token response
  * @throws {TokenExchangeError} When token exchange fails
  *
  * @example
  * ```ts
  * const tokens = await exchangeCodeForTokens(
- *   "https://bsky.social",
+ *   metadata.token_endpoint,
  *   "auth_code_123",
  *   "code_verifier_xyz",
- *   "https://myapp.com/client-metadata.json",
+ *   clientAuthenticator.provider("https://bsky.social"),
  *   "https://myapp.com/oauth/callback",
  *   dpopKeys,
+ *   nonceStore,
  *   logger
  * );
  * console.log("Access token:", tokens.access_token);
  * ```
  */
 export async function exchangeCodeForTokens(
-  authServer: string,
+  tokenEndpoint: string,
   code: string,
   codeVerifier: string,
-  clientId: string,
+  clientAuth: ClientAuthProvider,
   redirectUri: string,
-  dpopKeys: { privateKey: CryptoKey; publicKeyJWK: JsonWebKey },
+  dpopKeys: { privateKey: DPoPSigningKey; publicKeyJWK: JsonWebKey },
+  nonceStore: NonceStore,
   logger: Logger,
+  fetchFn?: FetchFunction,
 ): Promise<TokenResponse> {
-  const tokenUrl = `${authServer}/oauth/token`;
-
-  logger.info("Exchanging authorization code for tokens", { authServer });
+  logger.info("Exchanging authorization code for tokens", { tokenEndpoint });
 
   const tokenBody = new URLSearchParams({
     grant_type: "authorization_code",
-    client_id: clientId,
     redirect_uri: redirectUri,
     code,
     code_verifier: codeVerifier,
   });
 
   const response = await fetchWithDPoPRetry(
-    tokenUrl,
+    tokenEndpoint,
     tokenBody,
+    clientAuth,
     dpopKeys.privateKey,
     dpopKeys.publicKeyJWK,
     undefined,
+    nonceStore,
     logger,
+    fetchFn,
   );
 
   if (!response.ok) {
@@ -199,10 +213,12 @@ export async function exchangeCodeForTokens(
  *
  * @param tokenEndpoint - Token endpoint URL
  * @param refreshToken - Current refresh token
- * @param clientId - OAuth client ID
- * @param privateKeyJWK - DPoP private key as JWK
+ * @param clientAuth - Provider of client authentication parameters
+ * @param privateKey - DPoP private key or signer
  * @param publicKeyJWK - DPoP public key as JWK
+ * @param nonceStore - Store for DPoP nonces
  * @param logger - Logger instance
+ * @param fetchFn - `fetch` implementation (optional, defaults to the global `fetch`)
  * @returns Promise resolving to refreshed tokens
  * @throws {TokenExchangeError} When token refresh fails
  *
@@ -211,9 +227,10 @@ export async function exchangeCodeForTokens(
  * const tokens = await refreshTokens(
  *   "https://bsky.social/oauth/token",
  *   "refresh_token_123",
- *   "https://myapp.com/client-metadata.json",
- *   privateKeyJWK,
+ *   clientAuthenticator.provider("https://bsky.social"),
+ *   await dpopKeyProvider.getSigner(keyRef),
  *   publicKeyJWK,
+ *   nonceStore,
  *   logger
  * );
  * console.log("New access token:", tokens.accessToken);
@@ -222,32 +239,33 @@ export async function exchangeCodeForTokens(
 export async function refreshTokens(
   tokenEndpoint: string,
   refreshToken: string,
-  clientId: string,
-  privateKeyJWK: JsonWebKey,
+  clientAuth: ClientAuthProvider,
+  privateKey: DPoPSigningKey,
   publicKeyJWK: JsonWebKey,
+  nonceStore: NonceStore,
   logger: Logger,
-  timeoutMs?: number,
-): Promise<{ accessToken: string; refreshToken?: string; expiresIn: number }> {
+  fetchFn?: FetchFunction,
+): Promise<
+  { accessToken: string; refreshToken?: string; expiresIn: number; scope?: string | undefined }
+> {
   try {
     logger.info("Refreshing access token", { tokenEndpoint });
 
-    // Import private key for DPoP signing
-    const privateKey = await importPrivateKeyFromJWK(privateKeyJWK);
-
     const tokenBody = new URLSearchParams({
       grant_type: "refresh_token",
-      client_id: clientId,
       refresh_token: refreshToken,
     });
 
     const response = await fetchWithDPoPRetry(
       tokenEndpoint,
       tokenBody,
+      clientAuth,
       privateKey,
       publicKeyJWK,
       undefined,
+      nonceStore,
       logger,
-      timeoutMs,
+      fetchFn,
     );
 
     if (!response.ok) {
@@ -279,6 +297,7 @@ export async function refreshTokens(
       accessToken: tokens.access_token,
       refreshToken: tokens.refresh_token, // May be undefined if server doesn't rotate refresh tokens
       expiresIn: tokens.expires_in,
+      scope: typeof tokens.scope === "string" ? tokens.scope : undefined,
     };
   } catch (error) {
     if (error instanceof TokenExchangeError) {
@@ -4,6 +4,10 @@
  */
 
 import type { Logger } from "./logger.ts";
+import type { DiscoveryCache } from "./discovery-cache.ts";
+import type { BackgroundRefreshOptions } from "./refresh-scheduler.ts";
+import type { NonceStore } from "./nonce-store.ts";
+import type { DPoPKeyProvider } from "./dpop-keys.ts";
 
 /**
  * Storage interface for persisting OAuth sessions and state data.
@@ -57,23 +61,223 @@ export interface OAuthStorage {
    * @param key - Storage key to delete
    */
   delete(key: string): Promise<void>;
+
+  /**
+   * Atomically read and delete a value (optional).
+   *
+   * When implemented, one-time values such as PKCE state are consumed
+   * race-free: of two concurrent callers, only one receives the value.
+   *
+   * @param key - Storage key to consume
+   * @returns Promise resolving to the value, or null if not found or expired
+   */
+  getAndDelete?<T = unknown>(key: string): Promise<T | null>;
+
+  /**
+   * Atomically replace a value only if it still equals `expected` (optional).
+   *
+   * Values are compared by their JSON serialization; pass `null` as
+   * `expected` to set the value only when the key is absent.
+   *
+   * @param key - Storage key
+   * @param expected - Value the key must currently hold (null for absent)
+   * @param value - New value to store
+   * @param options - Storage options
+   * @param options.ttl - Time to live in seconds (optional)
+   * @returns Promise resolving to true if the value was written
+   */
+  compareAndSet?<T = unknown>(
+    key: string,
+    expected: T | null,
+    value: T,
+    options?: { ttl?: number },
+  ): Promise<boolean>;
+
+  /**
+   * List the keys that start with a prefix (optional).
+   *
+   * Expired values are not listed. Required for enumerating all stored
+   * sessions with `OAuthClient.getSessionIds()`.
+   *
+   * @param prefix - Key prefix (e.g., "session:")
+   * @returns Promise resolving to the matching keys, including the prefix
+   */
+  list?(prefix: string): Promise<string[]>;
+}
+
+/**
+ * Result of bidirectional handle verification.
+ *
+ * - `verified`: the handle resolves back to the session's DID
+ * - `invalid`: the handle is missing or resolves elsewhere (shown as "handle.invalid")
+ * - `unverified`: the session predates handle verification
+ */
+export type HandleVerificationStatus = "verified" | "invalid" | "unverified";
+
+/**
+ * Handle or PDS change detected by `refreshIdentity()`.
+ */
+export interface IdentityChange {
+  /** DID of the session's account */
+  did: string;
+  /** Handle and PDS URL the session had before */
+  previous: { handle: string; pdsUrl: string };
+  /** Handle and PDS URL from the current DID document */
+  current: { handle: string; pdsUrl: string };
+  /** Whether the handle changed (including becoming "handle.invalid") */
+  handleChanged: boolean;
+  /** Whether the account moved to another PDS */
+  pdsChanged: boolean;
 }
 
 export interface SessionData {
+  /** Schema version (absent in records written before versioning) */
+  version?: number;
   did: string;
   handle: string;
   pdsUrl: string;
   accessToken: string;
   refreshToken: string;
-  dpopPrivateKeyJWK: JsonWebKey;
+  /** DPoP private key (only with the default JWK key provider) */
+  dpopPrivateKeyJWK?: JsonWebKey;
   dpopPublicKeyJWK: JsonWebKey;
+  /** Key provider reference for DPoP keys held outside the session */
+  dpopKeyId?: string;
   tokenExpiresAt: number;
+  /** Outcome of bidirectional handle verification at sign-in */
+  handleVerification?: HandleVerificationStatus;
+  /** Key ID of the client signing key the session is bound to (confidential clients) */
+  clientKeyId?: string;
+  /** Scope granted by the authorization server (absent for sessions stored by older versions) */
+  scope?: string;
+  /** Issuer of the authorization server that issued the tokens */
+  issuer?: string;
+  /** Token endpoint used for refreshes */
+  tokenEndpoint?: string;
+  /** Revocation endpoint of the issuing authorization server, if it has one */
+  revocationEndpoint?: string;
+  /** When the session was created at sign-in (Unix ms) */
+  createdAt?: number;
+  /** When the current refresh token was issued (Unix ms) */
+  refreshTokenIssuedAt?: number;
+}
+
+/**
+ * Private JWK used to sign `private_key_jwt` client assertions.
+ * Must include a `kid`; `alg` is inferred from the curve when omitted.
+ */
+export interface ClientSigningJWK extends JsonWebKey {
+  kid: string;
+}
+
+/**
+ * AT Protocol OAuth client metadata document (served at the `client_id` URL).
+ *
+ * @see https://atproto.com/specs/oauth#client-id-metadata-document
+ */
+export interface ClientMetadata {
+  client_id: string;
+  application_type: "web" | "native";
+  grant_types: string[];
+  response_types: string[];
+  redirect_uris: string[];
+  scope: string;
+  token_endpoint_auth_method: "none" | "private_key_jwt";
+  token_endpoint_auth_signing_alg?: string;
+  dpop_bound_access_tokens: true;
+  jwks_uri?: string;
+  client_name?: string;
+  client_uri?: string;
+  logo_uri?: string;
+  tos_uri?: string;
+  policy_uri?: string;
+}
+
+/**
+ * Optional descriptive fields for the generated client metadata document.
+ */
+export interface ClientMetadataOptions {
+  /** Application type (defaults to "web") */
+  applicationType?: "web" | "native";
+  /** URL serving the public JWKS (confidential clients, defaults to `jwks.json` next to the client ID) */
+  jwksUri?: string;
+  /** Human-readable application name */
+  clientName?: string;
+  /** Application home page */
+  clientUri?: string;
+  /** Application logo */
+  logoUri?: string;
+  /** Terms of service URL */
+  tosUri?: string;
+  /** Privacy policy URL */
+  policyUri?: string;
+}
+
+/**
+ * `fetch`-compatible function used for all network requests.
+ *
+ * Pass one to route a client's HTTP traffic through a proxy, a custom agent or
+ * recorded fixtures. Defaults to the global `fetch`, looked up on every request.
+ */
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Options for operations that can be cancelled with an `AbortSignal`.
+ */
+export interface AbortOptions {
+  /**
+   * Cancels the operation; it then rejects with the signal's abort reason
+   */
+  signal?: AbortSignal;
 }
 
 export interface HandleResolver {
-  resolve(handle: string): Promise<{ did: string; pdsUrl: string }>;
+  /**
+   * Resolve a handle to its DID and PDS URL.
+   *
+   * Resolvers should pass `options.signal` to their requests so timed out or
+   * cancelled lookups stop early.
+   */
+  resolve(handle: string, options?: AbortOptions): Promise<{ did: string; pdsUrl: string }>;
 }
 
+/**
+ * Timeouts in milliseconds for each network phase of the OAuth flow.
+ *
+ * A phase that takes longer fails with a `TimeoutError` naming the phase.
+ * Set a phase to `0` to wait indefinitely.
+ */
+export interface OAuthTimeouts {
+  /** Resolving a handle to a DID and PDS, including handle verification (default: 10000) */
+  handleResolution?: number;
+
+  /** Fetching a DID document (default: 10000) */
+  didResolution?: number;
+
+  /** Protected resource and authorization server metadata discovery (default: 10000) */
+  discovery?: number;
+
+  /** Pushed Authorization Request (default: 10000) */
+  par?: number;
+
+  /** Authorization code exchange at the token endpoint (default: 30000) */
+  tokenExchange?: number;
+
+  /** Refresh token grant at the token endpoint (default: `refreshTimeout`, or 30000) */
+  refresh?: number;
+
+  /** Token revocation (default: 10000) */
+  revocation?: number;
+}
+
+/**
+ * Network phase of the OAuth flow, as reported by `TimeoutError`.
+ */
+export type TimeoutPhase = keyof OAuthTimeouts;
+
 export interface OAuthClientConfig {
   /**
    * Client identifier (usually your app's URL + /client-metadata.json)
@@ -90,6 +294,32 @@ export interface OAuthClientConfig {
    */
   storage: OAuthStorage;
 
+  /**
+   * Default OAuth scope requested by `authorize()` and published in the
+   * client metadata (defaults to "atproto transition:generic")
+   */
+  scope?: string;
+
+  /**
+   * Descriptive fields for the client metadata document returned by
+   * `getClientMetadata()` (optional)
+   */
+  clientMetadata?: ClientMetadataOptions;
+
+  /**
+   * Private signing keys for confidential client authentication (optional).
+   * When provided, PAR, token and revocation requests authenticate with a
+   * signed `private_key_jwt` client assertion instead of `client_id` alone.
+   */
+  keyset?: ClientSigningJWK[];
+
+  /**
+   * Key ID from `keyset` used to sign client assertions for new sessions
+   * (optional, defaults to the first key). Existing sessions keep using the
+   * key they were bound to at authorization time.
+   */
+  keyId?: string;
+
   /**
    * Custom handle resolver (optional, uses Slingshot by default)
    * Can be configured to use different resolution services or custom logic
@@ -102,17 +332,65 @@ export interface OAuthClientConfig {
    */
   slingshotUrl?: string;
 
+  /**
+   * `fetch` implementation for discovery, PAR, token requests, revocation,
+   * DID resolution, the default handle resolver and `Session.makeRequest()`
+   * (optional, defaults to the global `fetch`)
+   */
+  fetch?: FetchFunction;
+
   /**
    * Logger for debugging and diagnostics (optional, defaults to no-op logger)
    * Implement the Logger interface to capture client logging output
    */
   logger?: Logger;
 
+  /**
+   * Cache for OAuth discovery metadata (optional, defaults to an in-memory cache).
+   * Pass a `DiscoveryCache` backed by shared storage to reuse metadata across isolates.
+   */
+  discoveryCache?: DiscoveryCache;
+
+  /**
+   * Store for DPoP nonces (optional, defaults to a per-client in-memory LRU).
+   * Pass a `StorageNonceStore` backed by shared storage so isolates reuse fresh nonces.
+   */
+  nonceStore?: NonceStore;
+
+  /**
+   * Provider for session DPoP keys (optional, defaults to `JwkDPoPKeyProvider`,
+   * which stores the private key as a JWK in the session).
+   * Use `CryptoKeyDPoPKeyProvider` or a custom provider to keep private keys
+   * out of the session store.
+   */
+  dpopKeyProvider?: DPoPKeyProvider;
+
   /**
    * Timeout for refresh token operations in milliseconds (default: 30000).
+   * @deprecated Use `timeouts.refresh`
    */
   refreshTimeout?: number;
 
+  /**
+   * Per-phase network timeouts (optional, see {@link OAuthTimeouts} for defaults)
+   */
+  timeouts?: OAuthTimeouts;
+
+  /**
+   * Refresh tokens in the background ahead of expiry (optional, disabled by default).
+   * Sessions passed to `store()` or returned from `restore()` are tracked and
+   * refreshed `leadTime` before expiry (with jitter) through `refresh()`, so
+   * locking and `onSessionUpdated` apply. Call `client.dispose()` to stop.
+   */
+  backgroundRefresh?: BackgroundRefreshOptions;
+
+  /**
+   * Re-resolve the DID document on every `refresh()` and pick up handle and PDS
+   * changes before refreshing tokens (default: false).
+   * See `OAuthClient.refreshIdentity()`.
+   */
+  checkIdentityOnRefresh?: boolean;
+
   /**
    * Called after a session is updated (e.g., after token refresh).
    */
@@ -123,6 +401,12 @@ export interface OAuthClientConfig {
    */
   onSessionDeleted?: (sessionId: string) => void;
 
+  /**
+   * Called after `refreshIdentity()` detects a changed handle or PDS.
+   * The session has already been updated (and persisted, if it was stored).
+   */
+  onIdentityChanged?: (session: OAuthSession, change: IdentityChange) => void;
+
   /**
    * Custom lock function for distributed refresh token locking.
    * Default uses in-memory Map locks (works for single-instance and Deno Deploy isolates).
@@ -131,17 +415,34 @@ export interface OAuthClientConfig {
   requestLock?: <T>(key: string, fn: () => Promise<T>) => Promise<T>;
 }
 
+/**
+ * Options for a loopback development client created with `OAuthClient.loopback()`.
+ */
+export interface LoopbackClientOptions
+  extends Omit<OAuthClientConfig, "clientId" | "redirectUri" | "keyset" | "keyId"> {
+  /** Local port the callback server listens on (optional) */
+  port?: number;
+
+  /** Callback path (defaults to "/") */
+  path?: string;
+
+  /** Loopback IP host for the redirect URI (defaults to "127.0.0.1") */
+  host?: "127.0.0.1" | "[::1]";
+}
+
 /**
  * Authorization options matching @atproto/oauth-client interface
  */
-export interface AuthorizeOptions {
+export interface AuthorizeOptions extends AbortOptions {
   /**
    * State parameter for CSRF protection (optional, auto-generated if not provided)
    */
   state?: string;
 
   /**
-   * OAuth scope (defaults to "atproto transition:generic")
+   * OAuth scope (defaults to the client's configured scope, or "atproto transition:generic").
+   * Loopback clients may only request permissions listed in their client ID's
+   * scope; `authorize()` rejects anything else.
    */
   scope?: string;
 
@@ -174,7 +475,11 @@ export interface OAuthSession {
   /**
    * Make authenticated request with automatic DPoP header
    */
-  makeRequest(method: string, url: string, options?: RequestInit): Promise<Response>;
+  makeRequest(
+    method: string,
+    input: string | URL | Request,
+    options?: RequestInit,
+  ): Promise<Response>;
 
   /**
    * Serialize session data for storage
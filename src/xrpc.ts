@@ -0,0 +1,261 @@
+/**
+ * @fileoverview XRPC query and procedure helpers for authenticated sessions
+ * @module
+ */
+
+import { XRPCError } from "./errors.ts";
+
+/**
+ * Value of an XRPC query parameter. Arrays are encoded as repeated parameters.
+ */
+export type XrpcParamValue =
+  | string
+  | number
+  | boolean
+  | undefined
+  | Array<string | number | boolean>;
+
+/**
+ * XRPC query parameters.
+ */
+export type XrpcParams = Record<string, XrpcParamValue>;
+
+/**
+ * Options for an XRPC call.
+ */
+export interface XrpcCallOptions {
+  /** Additional request headers */
+  headers?: HeadersInit;
+
+  /** Signal to cancel the call */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for an XRPC procedure call.
+ */
+export interface XrpcProcedureOptions extends XrpcCallOptions {
+  /** Query parameters for the procedure */
+  params?: XrpcParams;
+
+  /**
+   * Content type of binary or raw input (e.g., "image/jpeg" for `uploadBlob`).
+   * Binary input defaults to the Blob's type, or "application/octet-stream";
+   * text to "text/plain;charset=UTF-8"; `FormData` and `URLSearchParams` to
+   * the platform's type.
+   */
+  encoding?: string;
+}
+
+/**
+ * Minimal session surface the XRPC helpers depend on.
+ * @internal
+ */
+export interface XrpcTransport {
+  readonly pdsUrl: string;
+  makeRequest(method: string, url: string, options?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Build an XRPC URL for a method NSID relative to a service URL.
+ *
+ * @param serviceUrl - Service base URL (e.g., the user's PDS)
+ * @param nsid - Lexicon method NSID (e.g., "com.atproto.repo.listRecords")
+ * @param params - Query parameters; arrays become repeated parameters
+ * @returns Fully qualified XRPC URL
+ *
+ * @example
+ * ```ts
+ * buildXrpcUrl("https://pds.example.com", "app.bsky.actor.getProfiles", {
+ *   actors: ["alice.example.com", "bob.example.com"],
+ * });
+ * // https://pds.example.com/xrpc/app.bsky.actor.getProfiles?actors=alice.example.com&actors=bob.example.com
+ * ```
+ */
+export function buildXrpcUrl(serviceUrl: string, nsid: string, params?: XrpcParams): string {
+  const url = new URL(`/xrpc/${nsid}`, serviceUrl);
+
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        url.searchParams.append(key, String(item));
+      }
+    } else {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  return url.href;
+}
+
+/**
+ * Merge caller headers with the XRPC defaults.
+ */
+function buildHeaders(init?: HeadersInit): Headers {
+  const headers = new Headers(init);
+  if (!headers.has("Accept")) headers.set("Accept", "application/json");
+  return headers;
+}
+
+/**
+ * Check whether procedure input is raw binary data rather than a JSON value.
+ */
+function isBinaryInput(input: unknown): input is Blob | BufferSource | ReadableStream {
+  return input instanceof Blob || input instanceof ArrayBuffer || ArrayBuffer.isView(input) ||
+    input instanceof ReadableStream;
+}
+
+/**
+ * Check whether procedure input is a non-binary `BodyInit` (text, form data or
+ * URL-encoded parameters) that must not be JSON-encoded.
+ */
+function isRawBodyInput(input: unknown): input is string | FormData | URLSearchParams {
+  return typeof input === "string" || input instanceof FormData ||
+    input instanceof URLSearchParams;
+}
+
+/**
+ * Parse a successful XRPC response body.
+ *
+ * JSON bodies are parsed, other content types are returned as bytes, and
+ * empty bodies resolve to undefined.
+ */
+async function parseXrpcResponse<T>(response: Response): Promise<T> {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.includes("application/json")) {
+    return await response.json() as T;
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return (bytes.length === 0 ? undefined : bytes) as T;
+}
+
+/**
+ * Convert a non-2xx XRPC response into an {@link XRPCError}.
+ */
+async function toXrpcError(nsid: string, response: Response): Promise<XRPCError> {
+  let error = response.statusText || "Unknown";
+  let message: string | undefined;
+
+  try {
+    const body = await response.json();
+    if (typeof body?.error === "string") error = body.error;
+    if (typeof body?.message === "string") message = body.message;
+  } catch {
+    // Non-JSON error body — keep the status text
+  }
+
+  return new XRPCError(nsid, response.status, error, message);
+}
+
+/**
+ * Typed XRPC helpers bound to an authenticated session.
+ *
+ * Requests are resolved relative to the session's PDS and sent through
+ * `session.makeRequest()`, so DPoP proofs, nonce retries and token refresh
+ * on 401 apply.
+ *
+ * @example
+ * ```ts
+ * const { records } = await session.xrpc.query<{ records: unknown[] }>(
+ *   "com.atproto.repo.listRecords",
+ *   { repo: session.did, collection: "app.bsky.feed.post", limit: 10 },
+ * );
+ *
+ * await session.xrpc.procedure("com.atproto.repo.createRecord", {
+ *   repo: session.did,
+ *   collection: "app.bsky.feed.post",
+ *   record: { $type: "app.bsky.feed.post", text: "Hello!", createdAt: new Date().toISOString() },
+ * });
+ *
+ * const { blob } = await session.xrpc.procedure<{ blob: unknown }>(
+ *   "com.atproto.repo.uploadBlob",
+ *   imageBytes,
+ *   { encoding: "image/jpeg" },
+ * );
+ * ```
+ */
+export class XrpcClient {
+  /**
+   * Create XRPC helpers for a session.
+   *
+   * @param transport - Session used to send authenticated requests
+   */
+  constructor(private readonly transport: XrpcTransport) {}
+
+  /**
+   * Call an XRPC query (HTTP GET).
+   *
+   * @param nsid - Lexicon method NSID
+   * @param params - Query parameters; arrays become repeated parameters
+   * @param options - Additional request options
+   * @returns Promise resolving to the parsed response body
+   * @throws {XRPCError} When the server responds with a non-2xx status
+   */
+  async query<T = unknown>(
+    nsid: string,
+    params?: XrpcParams,
+    options?: XrpcCallOptions,
+  ): Promise<T> {
+    const response = await this.transport.makeRequest(
+      "GET",
+      buildXrpcUrl(this.transport.pdsUrl, nsid, params),
+      {
+        headers: buildHeaders(options?.headers),
+        ...(options?.signal ? { signal: options.signal } : {}),
+      },
+    );
+
+    if (!response.ok) {
+      throw await toXrpcError(nsid, response);
+    }
+    return await parseXrpcResponse<T>(response);
+  }
+
+  /**
+   * Call an XRPC procedure (HTTP POST).
+   *
+   * @param nsid - Lexicon method NSID
+   * @param input - JSON input, or a body sent as-is: binary data (bytes, Blob or
+   *   stream), text, `FormData` or `URLSearchParams`
+   * @param options - Query parameters and additional request options
+   * @returns Promise resolving to the parsed response body
+   * @throws {XRPCError} When the server responds with a non-2xx status
+   */
+  async procedure<T = unknown>(
+    nsid: string,
+    input?: unknown,
+    options?: XrpcProcedureOptions,
+  ): Promise<T> {
+    const headers = buildHeaders(options?.headers);
+    const init: RequestInit = { headers, ...(options?.signal ? { signal: options.signal } : {}) };
+    if (isBinaryInput(input)) {
+      const encoding = options?.encoding ||
+        (input instanceof Blob && input.type) || "application/octet-stream";
+      if (!headers.has("Content-Type")) headers.set("Content-Type", encoding);
+      init.body = input;
+    } else if (isRawBodyInput(input)) {
+      // Label text explicitly so it is not sent as JSON; for forms the platform
+      // picks the content type (e.g. the multipart boundary) unless given
+      const encoding = options?.encoding ||
+        (typeof input === "string" ? "text/plain;charset=UTF-8" : undefined);
+      if (encoding && !headers.has("Content-Type")) headers.set("Content-Type", encoding);
+      init.body = input;
+    } else if (input !== undefined) {
+      if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+      init.body = JSON.stringify(input);
+    }
+
+    const response = await this.transport.makeRequest(
+      "POST",
+      buildXrpcUrl(this.transport.pdsUrl, nsid, options?.params),
+      init,
+    );
+
+    if (!response.ok) {
+      throw await toXrpcError(nsid, response);
+    }
+    return await parseXrpcResponse<T>(response);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Test utilities: an in-process mock AT Protocol authorization
+ * server and PDS for running OAuth flows offline.
+ *
+ * @example
+ * ```ts
+ * import { MockAtprotoServer } from "@tijs/oauth-client-deno/testing";
+ *
+ * const server = new MockAtprotoServer();
+ * const alice = server.createAccount({ handle: "alice.test" });
+ * const uninstall = server.install();
+ * ```
+ *
+ * @module
+ */
+
+export {
+  type MockAccount,
+  type MockApproveOptions,
+  MockAtprotoServer,
+  type MockAtprotoServerOptions,
+  type MockXrpcContext,
+  type MockXrpcHandler,
+} from "./src/testing.ts";
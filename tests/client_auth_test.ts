@@ -0,0 +1,118 @@
+import { assertEquals, assertNotEquals, assertRejects, assertThrows } from "@std/assert";
+import { decodeJwt, decodeProtectedHeader, exportJWK, importJWK, jwtVerify } from "@panva/jose";
+import { CLIENT_ASSERTION_TYPE, ClientAuthenticator } from "../src/client-auth.ts";
+import { OAuthError } from "../src/errors.ts";
+import type { ClientSigningJWK } from "../src/types.ts";
+
+const CLIENT_ID = "https://myapp.example.com/client-metadata.json";
+const ISSUER = "https://auth.example.com";
+
+async function generateSigningKey(kid: string): Promise<ClientSigningJWK> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  );
+  return { ...(await exportJWK(keyPair.privateKey)), kid };
+}
+
+function publicPart(jwk: ClientSigningJWK): JsonWebKey {
+  const { d: _d, ...publicJwk } = jwk;
+  return publicJwk;
+}
+
+Deno.test("ClientAuthenticator - public client", async (t) => {
+  const auth = new ClientAuthenticator(CLIENT_ID);
+
+  await t.step("is not confidential", () => {
+    assertEquals(auth.isConfidential, false);
+    assertEquals(auth.currentKeyId, undefined);
+  });
+
+  await t.step("sends client_id only", async () => {
+    assertEquals(await auth.getParams(ISSUER), { client_id: CLIENT_ID });
+  });
+});
+
+Deno.test("ClientAuthenticator - private_key_jwt", async (t) => {
+  const key1 = await generateSigningKey("key-1");
+  const key2 = await generateSigningKey("key-2");
+  const auth = new ClientAuthenticator(CLIENT_ID, [key1, key2]);
+
+  await t.step("defaults to the first key", () => {
+    assertEquals(auth.isConfidential, true);
+    assertEquals(auth.currentKeyId, "key-1");
+  });
+
+  await t.step("produces a signed client assertion", async () => {
+    const params = await auth.getParams(ISSUER);
+    assertEquals(params.client_id, CLIENT_ID);
+    assertEquals(params.client_assertion_type, CLIENT_ASSERTION_TYPE);
+
+    const verifyKey = await importJWK(publicPart(key1), "ES256");
+    const { payload, protectedHeader } = await jwtVerify(params.client_assertion!, verifyKey, {
+      issuer: CLIENT_ID,
+      subject: CLIENT_ID,
+      audience: ISSUER,
+    });
+    assertEquals(protectedHeader.alg, "ES256");
+    assertEquals(protectedHeader.kid, "key-1");
+    assertEquals(typeof payload.jti, "string");
+  });
+
+  await t.step("uses a fresh jti for every assertion", async () => {
+    const provider = auth.provider(ISSUER);
+    const first = await provider();
+    const second = await provider();
+    assertNotEquals(
+      decodeJwt(first.client_assertion!).jti,
+      decodeJwt(second.client_assertion!).jti,
+    );
+  });
+
+  await t.step("selects keys by kid", async () => {
+    const params = await auth.getParams(ISSUER, "key-2");
+    assertEquals(decodeProtectedHeader(params.client_assertion!).kid, "key-2");
+  });
+
+  await t.step("honors the configured keyId", () => {
+    const configured = new ClientAuthenticator(CLIENT_ID, [key1, key2], "key-2");
+    assertEquals(configured.currentKeyId, "key-2");
+  });
+
+  await t.step("rejects unknown kids", async () => {
+    await assertRejects(() => auth.getParams(ISSUER, "missing"), OAuthError, "missing");
+  });
+});
+
+Deno.test("ClientAuthenticator - keyset validation", async (t) => {
+  const key = await generateSigningKey("key-1");
+
+  await t.step("rejects keys without kid", () => {
+    assertThrows(
+      () => new ClientAuthenticator(CLIENT_ID, [{ ...key, kid: "" }]),
+      OAuthError,
+      "kid",
+    );
+  });
+
+  await t.step("rejects public keys", () => {
+    assertThrows(
+      () => new ClientAuthenticator(CLIENT_ID, [{ ...publicPart(key), kid: "pub" }]),
+      OAuthError,
+      "not a private key",
+    );
+  });
+
+  await t.step("rejects duplicate kids", () => {
+    assertThrows(() => new ClientAuthenticator(CLIENT_ID, [key, key]), OAuthError, "Duplicate");
+  });
+
+  await t.step("rejects unknown keyId", () => {
+    assertThrows(
+      () => new ClientAuthenticator(CLIENT_ID, [key], "other"),
+      OAuthError,
+      "not found",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { exportJWK } from "@panva/jose";
+import { OAuthClient } from "../src/client.ts";
+import { MemoryStorage } from "../src/storage.ts";
+import { OAuthError } from "../src/errors.ts";
+
+const baseConfig = {
+  clientId: "https://myapp.example.com/oauth/client-metadata.json",
+  redirectUri: "https://myapp.example.com/oauth/callback",
+  storage: new MemoryStorage(),
+};
+
+async function generateSigningKey(kid: string) {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  );
+  return { ...(await exportJWK(keyPair.privateKey)), kid };
+}
+
+Deno.test("OAuthClient.getClientMetadata - public client", async (t) => {
+  const client = new OAuthClient(baseConfig);
+  const metadata = client.getClientMetadata();
+
+  await t.step("mirrors the client configuration", () => {
+    assertEquals(metadata.client_id, baseConfig.clientId);
+    assertEquals(metadata.redirect_uris, [baseConfig.redirectUri]);
+    assertEquals(metadata.scope, "atproto transition:generic");
+  });
+
+  await t.step("sets AT Protocol required fields", () => {
+    assertEquals(metadata.application_type, "web");
+    assertEquals(metadata.grant_types, ["authorization_code", "refresh_token"]);
+    assertEquals(metadata.response_types, ["code"]);
+    assertEquals(metadata.dpop_bound_access_tokens, true);
+    assertEquals(metadata.token_endpoint_auth_method, "none");
+  });
+
+  await t.step("omits confidential client fields", () => {
+    assertEquals(metadata.jwks_uri, undefined);
+    assertEquals(metadata.token_endpoint_auth_signing_alg, undefined);
+  });
+
+  await t.step("returns an empty JWKS", () => {
+    assertEquals(client.getJwks(), { keys: [] });
+  });
+});
+
+Deno.test("OAuthClient.getClientMetadata - confidential client", async (t) => {
+  const key = await generateSigningKey("key-1");
+
+  await t.step("advertises private_key_jwt and a default jwks_uri", () => {
+    const client = new OAuthClient({ ...baseConfig, keyset: [key] });
+    const metadata = client.getClientMetadata();
+    assertEquals(metadata.token_endpoint_auth_method, "private_key_jwt");
+    assertEquals(metadata.token_endpoint_auth_signing_alg, "ES256");
+    assertEquals(metadata.jwks_uri, "https://myapp.example.com/oauth/jwks.json");
+  });
+
+  await t.step("uses configured scope and descriptive fields", () => {
+    const client = new OAuthClient({
+      ...baseConfig,
+      keyset: [key],
+      scope: "atproto repo:app.bsky.feed.post",
+      clientMetadata: {
+        clientName: "My App",
+        clientUri: "https://myapp.example.com",
+        jwksUri: "https://myapp.example.com/keys",
+      },
+    });
+    const metadata = client.getClientMetadata();
+    assertEquals(metadata.scope, "atproto repo:app.bsky.feed.post");
+    assertEquals(metadata.client_name, "My App");
+    assertEquals(metadata.client_uri, "https://myapp.example.com");
+    assertEquals(metadata.jwks_uri, "https://myapp.example.com/keys");
+    assertEquals(metadata.logo_uri, undefined);
+  });
+
+  await t.step("publishes only public key members", () => {
+    const client = new OAuthClient({ ...baseConfig, keyset: [key] });
+    const { keys } = client.getJwks();
+    assertEquals(keys.length, 1);
+    assertEquals(keys[0]!.d, undefined);
+    assertEquals(keys[0]!.x, key.x);
+    assertEquals(keys[0]!.y, key.y);
+    assertEquals((keys[0] as { kid?: string }).kid, "key-1");
+    assertEquals(keys[0]!.alg, "ES256");
+    assertEquals(keys[0]!.use, "sig");
+  });
+
+  await t.step("rejects an invalid keyset at construction", () => {
+    const { d: _d, ...publicKey } = key;
+    assertThrows(() => new OAuthClient({ ...baseConfig, keyset: [publicKey] }), OAuthError);
+  });
+});
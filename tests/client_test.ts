@@ -0,0 +1,800 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { OAuthClient } from "../src/client.ts";
+import {
+  IssuerMismatchError,
+  OAuthError,
+  SessionDataCorruptError,
+  SessionError,
+  TimeoutError,
+  TokenExchangeError,
+} from "../src/errors.ts";
+import { generateDPoPKeyPair } from "../src/dpop.ts";
+import { CryptoKeyDPoPKeyProvider } from "../src/dpop-keys.ts";
+import { Session, type SessionData } from "../src/session.ts";
+import { SESSION_DATA_VERSION } from "../src/session-schema.ts";
+import { MemoryStorage } from "../src/storage.ts";
+import { MockAtprotoServer } from "../src/testing.ts";
+import type { IdentityChange, OAuthClientConfig, OAuthStorage } from "../src/types.ts";
+
+type FetchHandler = (url: string, init?: RequestInit) => Response | Promise<Response>;
+
+// Replace globalThis.fetch for the duration of a test step
+async function withFetch(handler: FetchHandler, fn: () => Promise<void>): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    return await handler(url, init);
+  };
+  try {
+    await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+const AUTH_SERVER = "https://auth.example.com";
+
+const authServerMetadata = {
+  issuer: AUTH_SERVER,
+  authorization_endpoint: `${AUTH_SERVER}/x/authorize`,
+  token_endpoint: `${AUTH_SERVER}/x/token`,
+  pushed_authorization_request_endpoint: `${AUTH_SERVER}/x/par`,
+};
+
+Deno.test("OAuthClient.authorize - discovered endpoints", async (t) => {
+  await t.step("uses advertised PAR and authorization endpoints", async () => {
+    const storage = new MemoryStorage();
+    const client = new OAuthClient({
+      clientId: "https://myapp.example.com/client-metadata.json",
+      redirectUri: "https://myapp.example.com/callback",
+      storage,
+    });
+    const posted: string[] = [];
+
+    await withFetch((url, init) => {
+      if (url.endsWith("/.well-known/oauth-protected-resource")) {
+        return Response.json({ authorization_servers: [AUTH_SERVER] });
+      }
+      if (url.endsWith("/.well-known/oauth-authorization-server")) {
+        return Response.json(authServerMetadata);
+      }
+      if (init?.method === "POST") {
+        posted.push(url);
+        return Response.json({ request_uri: "urn:request:123" });
+      }
+      return new Response(null, { status: 404 });
+    }, async () => {
+      const authUrl = await client.authorize(AUTH_SERVER, { state: "state-1" });
+
+      assertEquals(posted, [authServerMetadata.pushed_authorization_request_endpoint]);
+      assertEquals(
+        `${authUrl.origin}${authUrl.pathname}`,
+        authServerMetadata.authorization_endpoint,
+      );
+      assertEquals(authUrl.searchParams.get("request_uri"), "urn:request:123");
+
+      const pkce = await storage.get<{ authServerMetadata: { token_endpoint: string } }>(
+        "pkce:state-1",
+      );
+      assertEquals(pkce?.authServerMetadata.token_endpoint, authServerMetadata.token_endpoint);
+    });
+  });
+});
+
+function createSession(did: string): Session {
+  return new Session({
+    did,
+    handle: "alice.example.com",
+    pdsUrl: "https://pds.example.com",
+    accessToken: "access",
+    refreshToken: "refresh",
+    dpopPublicKeyJWK: { kty: "EC", crv: "P-256", x: "x", y: "y" },
+    dpopPrivateKeyJWK: { kty: "EC", crv: "P-256", x: "x", y: "y", d: "d" },
+    tokenExpiresAt: Date.now() + 3600_000,
+  });
+}
+
+Deno.test("OAuthClient - session enumeration", async (t) => {
+  const createClient = (storage: OAuthStorage) =>
+    new OAuthClient({
+      clientId: "https://app.example.com/client-metadata.json",
+      redirectUri: "https://app.example.com/oauth/callback",
+      storage,
+    });
+
+  await t.step("should list a DID's sessions across devices", async () => {
+    const client = createClient(new MemoryStorage());
+    await client.store("laptop", createSession("did:plc:alice"));
+    await client.store("phone", createSession("did:plc:alice"));
+    await client.store("other", createSession("did:plc:bob"));
+    await client.store("laptop", createSession("did:plc:alice")); // re-store is idempotent
+
+    const sessions = await client.listSessions("did:plc:alice");
+    assertEquals(sessions.map((s) => s.sessionId), ["laptop", "phone"]);
+    assertEquals(sessions[0]!.session.did, "did:plc:alice");
+    assertEquals(await client.listSessions("did:plc:nobody"), []);
+  });
+
+  await t.step("should remove signed-out sessions from the index", async () => {
+    const client = createClient(new MemoryStorage());
+    const session = createSession("did:plc:alice");
+    await client.store("laptop", session);
+    await client.store("phone", createSession("did:plc:alice"));
+
+    await withFetch(() => new Response(null, { status: 500 }), async () => {
+      await client.signOut("laptop", session);
+    });
+
+    const sessions = await client.listSessions("did:plc:alice");
+    assertEquals(sessions.map((s) => s.sessionId), ["phone"]);
+  });
+
+  await t.step("should prune index entries of missing sessions", async () => {
+    const storage = new MemoryStorage();
+    const client = createClient(storage);
+    await client.store("laptop", createSession("did:plc:alice"));
+    await client.store("phone", createSession("did:plc:alice"));
+    await storage.delete("session:phone");
+
+    assertEquals((await client.listSessions("did:plc:alice")).length, 1);
+    assertEquals(await storage.get("did-sessions:did:plc:alice"), ["laptop"]);
+  });
+
+  await t.step("should not lose concurrent index updates", async () => {
+    const storage = new MemoryStorage();
+    const client = createClient(storage);
+    await Promise.all(
+      ["a", "b", "c", "d"].map((id) => client.store(id, createSession("did:plc:alice"))),
+    );
+    const ids = (await client.listSessions("did:plc:alice")).map((s) => s.sessionId);
+    assertEquals(ids.sort(), ["a", "b", "c", "d"]);
+  });
+
+  await t.step("should list all session IDs", async () => {
+    const client = createClient(new MemoryStorage());
+    await client.store("laptop", createSession("did:plc:alice"));
+    await client.store("other", createSession("did:plc:bob"));
+    assertEquals((await client.getSessionIds()).sort(), ["laptop", "other"]);
+  });
+
+  await t.step("should reject listing on storage without list()", async () => {
+    const backend = new MemoryStorage();
+    const client = createClient({
+      get: (key) => backend.get(key),
+      set: (key, value, options) => backend.set(key, value, options),
+      delete: (key) => backend.delete(key),
+    });
+    await assertRejects(() => client.getSessionIds(), OAuthError, "list()");
+  });
+});
+
+const REFRESH_DID = "did:plc:alice";
+const createRefreshClient = (storage: OAuthStorage) =>
+  new OAuthClient({
+    clientId: "https://app.example.com/client-metadata.json",
+    redirectUri: "https://app.example.com/oauth/callback",
+    storage,
+  });
+
+async function createExpiredSessionData(refreshToken: string): Promise<SessionData> {
+  const keys = await generateDPoPKeyPair();
+  return {
+    did: REFRESH_DID,
+    handle: "alice.example.com",
+    pdsUrl: "https://pds.example.com",
+    accessToken: "expired-access",
+    refreshToken,
+    dpopPrivateKeyJWK: keys.privateKeyJWK,
+    dpopPublicKeyJWK: keys.publicKeyJWK,
+    tokenExpiresAt: Date.now() - 1000,
+  };
+}
+
+// Authorization server that rotates refresh tokens and rejects reuse as a replay.
+// Token and revocation requests to any ".../token" or ".../revoke" URL are
+// recorded in `posted`.
+function tokenServer(posted: string[] = []): FetchHandler {
+  const used = new Set<string>();
+  return (url, init) => {
+    if (url.endsWith("/.well-known/oauth-protected-resource")) {
+      return Response.json({ authorization_servers: [AUTH_SERVER] });
+    }
+    if (url.endsWith("/.well-known/oauth-authorization-server")) {
+      return Response.json(authServerMetadata);
+    }
+    if (init?.method === "POST" && url.endsWith("/token")) {
+      posted.push(url);
+      const refreshToken = new URLSearchParams(String(init?.body)).get("refresh_token")!;
+      if (used.has(refreshToken)) {
+        return Response.json(
+          { error: "invalid_grant", error_description: "refresh token replayed" },
+          { status: 400 },
+        );
+      }
+      used.add(refreshToken);
+      return Response.json({
+        access_token: `access-for-${refreshToken}`,
+        refresh_token: `${refreshToken}-rotated`,
+        token_type: "DPoP",
+        sub: REFRESH_DID,
+        scope: "atproto transition:generic",
+        expires_in: 3600,
+      });
+    }
+    if (init?.method === "POST" && url.endsWith("/revoke")) {
+      posted.push(url);
+      return new Response(null, { status: 200 });
+    }
+    return new Response(null, { status: 404 });
+  };
+}
+
+Deno.test("OAuthClient - session keying during refresh", async (t) => {
+  await t.step("should recover from a replay race on a non-DID session ID", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:browser-1", await createExpiredSessionData("refresh-1"));
+
+    // Two isolates restore the same expired session at the same time
+    await withFetch(tokenServer(), async () => {
+      const [a, b] = await Promise.all([
+        createRefreshClient(storage).restore("browser-1"),
+        createRefreshClient(storage).restore("browser-1"),
+      ]);
+
+      assertEquals(a.accessToken, "access-for-refresh-1");
+      assertEquals(b.accessToken, "access-for-refresh-1");
+      assertEquals(b.refreshToken, "refresh-1-rotated");
+      assertEquals(b.sessionId, "browser-1");
+    });
+
+    const stored = await storage.get<SessionData>("session:browser-1");
+    assertEquals(stored?.refreshToken, "refresh-1-rotated");
+    assertEquals(await storage.get(`session:${REFRESH_DID}`), null);
+  });
+
+  await t.step("should refresh sessions of the same DID independently", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:laptop", await createExpiredSessionData("refresh-laptop"));
+    await storage.set("session:phone", await createExpiredSessionData("refresh-phone"));
+    const client = createRefreshClient(storage);
+
+    await withFetch(tokenServer(), async () => {
+      const [laptop, phone] = await Promise.all([
+        client.restore("laptop"),
+        client.restore("phone"),
+      ]);
+
+      assertEquals(laptop.accessToken, "access-for-refresh-laptop");
+      assertEquals(phone.accessToken, "access-for-refresh-phone");
+    });
+
+    assertEquals(
+      (await storage.get<SessionData>("session:phone"))?.refreshToken,
+      "refresh-phone-rotated",
+    );
+  });
+});
+
+Deno.test("OAuthClient - refresh with recorded authorization server", async (t) => {
+  await t.step("should refuse to refresh when the issuer changed", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:s1", {
+      ...await createExpiredSessionData("refresh-1"),
+      issuer: "https://old-auth.example.com",
+      tokenEndpoint: "https://old-auth.example.com/oauth/token",
+    });
+    const posted: string[] = [];
+
+    await withFetch(tokenServer(posted), async () => {
+      const error = await assertRejects(
+        () => createRefreshClient(storage).restore("s1"),
+        IssuerMismatchError,
+      );
+      assertEquals(error.expected, "https://old-auth.example.com");
+      assertEquals(error.actual, AUTH_SERVER);
+    });
+    assertEquals(posted, []);
+  });
+
+  await t.step("should refresh at the recorded token endpoint", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:s1", {
+      ...await createExpiredSessionData("refresh-1"),
+      scope: "atproto",
+      issuer: AUTH_SERVER,
+      tokenEndpoint: `${AUTH_SERVER}/recorded/token`,
+      refreshTokenIssuedAt: 0,
+    });
+    const posted: string[] = [];
+
+    await withFetch(tokenServer(posted), async () => {
+      await createRefreshClient(storage).restore("s1");
+    });
+
+    assertEquals(posted, [`${AUTH_SERVER}/recorded/token`]);
+    const stored = await storage.get<SessionData>("session:s1");
+    assertEquals(stored?.scope, "atproto transition:generic");
+    assert(stored!.refreshTokenIssuedAt! > 0);
+  });
+});
+
+Deno.test("OAuthClient.signOut - recorded authorization server", async (t) => {
+  await t.step("should revoke at the recorded revocation endpoint", async () => {
+    const storage = new MemoryStorage();
+    const session = new Session({
+      ...await createExpiredSessionData("refresh-1"),
+      issuer: AUTH_SERVER,
+      tokenEndpoint: `${AUTH_SERVER}/recorded/token`,
+      revocationEndpoint: `${AUTH_SERVER}/recorded/revoke`,
+    });
+    const client = createRefreshClient(storage);
+    await client.store("s1", session);
+    const posted: string[] = [];
+
+    await withFetch(tokenServer(posted), async () => {
+      await client.signOut("s1", session);
+    });
+
+    assertEquals(posted, [`${AUTH_SERVER}/recorded/revoke`]);
+    assertEquals(await storage.get("session:s1"), null);
+  });
+
+  await t.step("should not revoke at another authorization server", async () => {
+    const storage = new MemoryStorage();
+    const session = new Session({
+      ...await createExpiredSessionData("refresh-1"),
+      issuer: "https://old-auth.example.com",
+      tokenEndpoint: "https://old-auth.example.com/oauth/token",
+    });
+    const client = createRefreshClient(storage);
+    await client.store("s1", session);
+    const posted: string[] = [];
+
+    // The PDS now advertises a revocation endpoint on a different server
+    const server = tokenServer(posted);
+    await withFetch(
+      (url, init) =>
+        url.endsWith("/.well-known/oauth-authorization-server")
+          ? Response.json({ ...authServerMetadata, revocation_endpoint: `${AUTH_SERVER}/revoke` })
+          : server(url, init),
+      async () => {
+        await client.signOut("s1", session);
+      },
+    );
+
+    assertEquals(posted, []);
+    assertEquals(await storage.get("session:s1"), null);
+  });
+});
+
+Deno.test("OAuthClient.restore - stored session schema", async (t) => {
+  await t.step("should upgrade unversioned sessions in storage", async () => {
+    const storage = new MemoryStorage();
+    const { tokenExpiresAt: _, ...data } = await createExpiredSessionData("refresh-1");
+    await storage.set("session:s1", { ...data, tokenExpiresAt: Date.now() + 3600_000 });
+
+    await createRefreshClient(storage).restore("s1");
+
+    const stored = await storage.get<SessionData>("session:s1");
+    assertEquals(stored?.version, SESSION_DATA_VERSION);
+  });
+
+  await t.step("should reject corrupt sessions with SessionDataCorruptError", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:s1", { did: "did:plc:alice", accessToken: 42 });
+
+    const error = await assertRejects(
+      () => createRefreshClient(storage).restore("s1"),
+      SessionDataCorruptError,
+    );
+    assertEquals(error.sessionId, "s1");
+  });
+
+  await t.step("should upgrade sessions listed for a DID", async () => {
+    const storage = new MemoryStorage();
+    const { tokenExpiresAt: _, ...data } = await createExpiredSessionData("refresh-1");
+    await storage.set("session:s1", { ...data, tokenExpiresAt: Date.now() + 3600_000 });
+    await storage.set(`did-sessions:${REFRESH_DID}`, ["s1"]);
+
+    const sessions = await createRefreshClient(storage).listSessions(REFRESH_DID);
+
+    assertEquals(sessions.map((s) => s.sessionId), ["s1"]);
+    const stored = await storage.get<SessionData>("session:s1");
+    assertEquals(stored?.version, SESSION_DATA_VERSION);
+  });
+
+  await t.step("should reject corrupt sessions when listing", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:s1", { did: REFRESH_DID, accessToken: 42 });
+    await storage.set(`did-sessions:${REFRESH_DID}`, ["s1"]);
+
+    const error = await assertRejects(
+      () => createRefreshClient(storage).listSessions(REFRESH_DID),
+      SessionDataCorruptError,
+    );
+    assertEquals(error.sessionId, "s1");
+  });
+});
+
+const NEW_PDS = "https://new-pds.example.com";
+
+// DID document host for REFRESH_DID pointing at `pdsUrl`, in front of `tokenServer()`.
+// PDSes other than `NEW_PDS` are served by AUTH_SERVER; `NEW_PDS` by `newPdsAuthServer`.
+function identityServer(
+  handle: string,
+  pdsUrl: string,
+  newPdsAuthServer = AUTH_SERVER,
+  posted: string[] = [],
+): FetchHandler {
+  const tokens = tokenServer(posted);
+  return (url, init) => {
+    if (url === `https://plc.directory/${encodeURIComponent(REFRESH_DID)}`) {
+      return Response.json({
+        id: REFRESH_DID,
+        alsoKnownAs: [`at://${handle}`],
+        service: [{
+          id: "#atproto_pds",
+          type: "AtprotoPersonalDataServer",
+          serviceEndpoint: pdsUrl,
+        }],
+      });
+    }
+    if (url === `${NEW_PDS}/.well-known/oauth-protected-resource`) {
+      return Response.json({ authorization_servers: [newPdsAuthServer] });
+    }
+    if (url === `${newPdsAuthServer}/.well-known/oauth-authorization-server`) {
+      return Response.json({ ...authServerMetadata, issuer: newPdsAuthServer });
+    }
+    return tokens(url, init);
+  };
+}
+
+const createIdentityClient = (
+  storage: OAuthStorage,
+  options: Partial<OAuthClientConfig> = {},
+) =>
+  new OAuthClient({
+    clientId: "https://app.example.com/client-metadata.json",
+    redirectUri: "https://app.example.com/oauth/callback",
+    storage,
+    handleResolver: {
+      resolve: () => Promise.resolve({ did: REFRESH_DID, pdsUrl: NEW_PDS }),
+    },
+    ...options,
+  });
+
+async function storeIdentitySession(storage: OAuthStorage, expired = false): Promise<void> {
+  const data = await createExpiredSessionData("refresh-1");
+  await storage.set("session:s1", {
+    ...data,
+    issuer: AUTH_SERVER,
+    ...(expired ? {} : { tokenExpiresAt: Date.now() + 3600_000 }),
+  });
+}
+
+Deno.test("OAuthClient.refreshIdentity", async (t) => {
+  await t.step("should pick up a new handle and PDS and persist them", async () => {
+    const storage = new MemoryStorage();
+    await storeIdentitySession(storage);
+    const changes: IdentityChange[] = [];
+    const client = createIdentityClient(storage, {
+      onIdentityChanged: (_session, change) => changes.push(change),
+    });
+
+    await withFetch(identityServer("alice.new.example", NEW_PDS), async () => {
+      const session = await client.restore("s1");
+      const change = await session.refreshIdentity();
+
+      assertEquals(change, {
+        did: REFRESH_DID,
+        previous: { handle: "alice.example.com", pdsUrl: "https://pds.example.com" },
+        current: { handle: "alice.new.example", pdsUrl: NEW_PDS },
+        handleChanged: true,
+        pdsChanged: true,
+      });
+      assertEquals(session.handle, "alice.new.example");
+      assertEquals(session.pdsUrl, NEW_PDS);
+      assertEquals(changes, [change!]);
+    });
+
+    const stored = await storage.get<SessionData>("session:s1");
+    assertEquals(stored?.handle, "alice.new.example");
+    assertEquals(stored?.pdsUrl, NEW_PDS);
+    assertEquals(stored?.handleVerification, "verified");
+  });
+
+  await t.step("should return null when nothing changed", async () => {
+    const storage = new MemoryStorage();
+    await storeIdentitySession(storage);
+    let notified = false;
+    const client = createIdentityClient(storage, { onIdentityChanged: () => notified = true });
+
+    await withFetch(identityServer("alice.example.com", "https://pds.example.com"), async () => {
+      const session = await client.restore("s1");
+      assertEquals(await session.refreshIdentity(), null);
+    });
+    assertEquals(notified, false);
+  });
+
+  await t.step("should reject a PDS served by another authorization server", async () => {
+    const storage = new MemoryStorage();
+    await storeIdentitySession(storage);
+    const client = createIdentityClient(storage);
+    const handler = identityServer("alice.example.com", NEW_PDS, "https://other-auth.example.com");
+
+    await withFetch(handler, async () => {
+      const session = await client.restore("s1");
+      const error = await assertRejects(() => session.refreshIdentity(), IssuerMismatchError);
+      assertEquals(error.expected, AUTH_SERVER);
+      assertEquals(error.actual, "https://other-auth.example.com");
+      assertEquals(session.pdsUrl, "https://pds.example.com");
+    });
+    assertEquals((await storage.get<SessionData>("session:s1"))?.pdsUrl, "https://pds.example.com");
+  });
+
+  await t.step("should keep the handle when the handle lookup fails", async () => {
+    const storage = new MemoryStorage();
+    await storeIdentitySession(storage);
+    let notified = false;
+    const client = createIdentityClient(storage, {
+      handleResolver: { resolve: () => Promise.reject(new Error("resolver unavailable")) },
+      onIdentityChanged: () => notified = true,
+    });
+
+    await withFetch(identityServer("alice.example.com", "https://pds.example.com"), async () => {
+      const session = await client.restore("s1");
+      assertEquals(await session.refreshIdentity(), null);
+      assertEquals(session.handle, "alice.example.com");
+    });
+    assertEquals(notified, false);
+    assertEquals((await storage.get<SessionData>("session:s1"))?.handle, "alice.example.com");
+  });
+
+  await t.step("should reject a PDS whose authorization server can't be discovered", async () => {
+    const storage = new MemoryStorage();
+    await storeIdentitySession(storage);
+    const client = createIdentityClient(storage);
+    const server = identityServer("alice.example.com", NEW_PDS);
+    const handler: FetchHandler = (url, init) =>
+      url.startsWith(NEW_PDS) ? new Response(null, { status: 503 }) : server(url, init);
+
+    await withFetch(handler, async () => {
+      const session = await client.restore("s1");
+      await assertRejects(() => session.refreshIdentity());
+      assertEquals(session.pdsUrl, "https://pds.example.com");
+    });
+    assertEquals((await storage.get<SessionData>("session:s1"))?.pdsUrl, "https://pds.example.com");
+  });
+
+  await t.step("should check the issuer of sessions stored without one", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:s1", {
+      ...await createExpiredSessionData("refresh-1"),
+      tokenExpiresAt: Date.now() + 3600_000,
+    });
+    const client = createIdentityClient(storage);
+    const handler = identityServer("alice.example.com", NEW_PDS, "https://other-auth.example.com");
+
+    await withFetch(handler, async () => {
+      const session = await client.restore("s1");
+      const error = await assertRejects(() => session.refreshIdentity(), IssuerMismatchError);
+      assertEquals(error.expected, AUTH_SERVER);
+      assertEquals(error.actual, "https://other-auth.example.com");
+      assertEquals(session.pdsUrl, "https://pds.example.com");
+    });
+  });
+
+  await t.step("should check identity before refreshing when enabled", async () => {
+    const storage = new MemoryStorage();
+    await storeIdentitySession(storage, true);
+    const client = createIdentityClient(storage, { checkIdentityOnRefresh: true });
+
+    await withFetch(identityServer("alice.example.com", NEW_PDS), async () => {
+      const session = await client.restore("s1");
+      assertEquals(session.pdsUrl, NEW_PDS);
+      assertEquals(session.accessToken, "access-for-refresh-1");
+    });
+    assertEquals((await storage.get<SessionData>("session:s1"))?.pdsUrl, NEW_PDS);
+  });
+
+  await t.step("should require a session managed by a client", async () => {
+    const session = new Session(await createExpiredSessionData("refresh-1"));
+    await assertRejects(() => session.refreshIdentity(), SessionError);
+  });
+});
+
+Deno.test("OAuthClient.callback - DPoP key cleanup", async (t) => {
+  await t.step("should release the DPoP key when the code exchange fails", async () => {
+    const server = new MockAtprotoServer();
+    server.createAccount({ handle: "alice.test" });
+    const keyStorage = new MemoryStorage();
+    const client = new OAuthClient({
+      clientId: "https://app.example.com/client-metadata.json",
+      redirectUri: "https://app.example.com/oauth/callback",
+      storage: new MemoryStorage(),
+      handleResolver: server.handleResolver,
+      dpopKeyProvider: new CryptoKeyDPoPKeyProvider(keyStorage),
+      fetch: server.fetch,
+    });
+
+    const params = await server.approve(await client.authorize("alice.test"));
+    params.set("code", "not-a-valid-code");
+
+    await assertRejects(() => client.callback(params), TokenExchangeError);
+    assertEquals(await keyStorage.list("dpop-key:"), []);
+  });
+});
+
+Deno.test("OAuthClient - fetch option", async (t) => {
+  await t.step("should send every request through the configured fetch", async () => {
+    const server = new MockAtprotoServer();
+    server.createAccount({ handle: "alice.test" });
+    const requested: string[] = [];
+    const client = new OAuthClient({
+      clientId: "https://app.example.com/client-metadata.json",
+      redirectUri: "https://app.example.com/oauth/callback",
+      storage: new MemoryStorage(),
+      handleResolver: server.handleResolver,
+      fetch: (input, init) => {
+        requested.push(new Request(input, init).url);
+        return server.fetch(input, init);
+      },
+    });
+
+    await withFetch(() => {
+      throw new Error("global fetch used");
+    }, async () => {
+      const authUrl = await client.authorize("alice.test");
+      const { session } = await client.callback(await server.approve(authUrl));
+      await client.refresh(session as Session);
+      await (session as Session).refreshIdentity();
+      await (session as Session).xrpc.query("com.atproto.server.getSession");
+      await client.signOut("s1", session as Session);
+    });
+
+    const paths = new Set(requested.map((url) => new URL(url).pathname));
+    for (
+      const path of [
+        "/.well-known/oauth-protected-resource",
+        "/.well-known/oauth-authorization-server",
+        "/oauth/par",
+        "/oauth/token",
+        "/oauth/revoke",
+        "/xrpc/com.atproto.server.getSession",
+      ]
+    ) {
+      assert(paths.has(path), `missing request to ${path}`);
+    }
+    assert(requested.some((url) => url.startsWith("https://plc.directory/")));
+  });
+});
+
+// Never settles on its own; rejects once the request's signal aborts
+function stalled(init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(init.signal!.reason), { once: true });
+  });
+}
+
+function createTimeoutClient(
+  server: MockAtprotoServer,
+  stallPath: string,
+  options: Partial<OAuthClientConfig> = {},
+) {
+  const aborted: string[] = [];
+  const client = new OAuthClient({
+    clientId: "https://app.example.com/client-metadata.json",
+    redirectUri: "https://app.example.com/oauth/callback",
+    storage: new MemoryStorage(),
+    handleResolver: server.handleResolver,
+    fetch: (input, init) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      if (url.pathname !== stallPath) return server.fetch(input, init);
+      init?.signal?.addEventListener("abort", () => aborted.push(url.pathname));
+      return stalled(init);
+    },
+    ...options,
+  });
+  return { client, aborted };
+}
+
+Deno.test("OAuthClient - timeouts and cancellation", async (t) => {
+  await t.step("should time out a stalled handle resolver", async () => {
+    const server = new MockAtprotoServer();
+    const client = new OAuthClient({
+      clientId: "https://app.example.com/client-metadata.json",
+      redirectUri: "https://app.example.com/oauth/callback",
+      storage: new MemoryStorage(),
+      // Ignores the signal, so only the timeout can end the wait
+      handleResolver: { resolve: () => new Promise(() => {}) },
+      fetch: server.fetch,
+      timeouts: { handleResolution: 20 },
+    });
+
+    const error = await assertRejects(() => client.authorize("alice.test"), TimeoutError);
+    assertEquals(error.phase, "handleResolution");
+    assertEquals(error.timeoutMs, 20);
+  });
+
+  await t.step("should abort a stalled PAR request", async () => {
+    const server = new MockAtprotoServer();
+    server.createAccount({ handle: "alice.test" });
+    const { client, aborted } = createTimeoutClient(server, "/oauth/par", {
+      timeouts: { par: 20 },
+    });
+
+    const error = await assertRejects(() => client.authorize("alice.test"), TimeoutError);
+    assertEquals(error.phase, "par");
+    assertEquals(aborted, ["/oauth/par"]);
+  });
+
+  await t.step("should reject with the abort reason when authorize is cancelled", async () => {
+    const server = new MockAtprotoServer();
+    server.createAccount({ handle: "alice.test" });
+    const { client, aborted } = createTimeoutClient(server, "/oauth/par");
+    const controller = new AbortController();
+    const reason = new Error("user navigated away");
+
+    const pending = client.authorize("alice.test", { signal: controller.signal });
+    setTimeout(() => controller.abort(reason), 10);
+    const error = await assertRejects(() => pending);
+    assertEquals(error, reason);
+    assertEquals(aborted, ["/oauth/par"]);
+  });
+
+  await t.step("should time out a stalled code exchange", async () => {
+    const server = new MockAtprotoServer();
+    server.createAccount({ handle: "alice.test" });
+    const { client } = createTimeoutClient(server, "/oauth/token", {
+      timeouts: { tokenExchange: 20 },
+    });
+
+    const params = await server.approve(await client.authorize("alice.test"));
+    const error = await assertRejects(() => client.callback(params), TimeoutError);
+    assertEquals(error.phase, "tokenExchange");
+  });
+
+  await t.step("should keep the session when a refresh times out on restore", async () => {
+    const server = new MockAtprotoServer({ accessTokenTtl: 60 });
+    server.createAccount({ handle: "alice.test" });
+    const storage = new MemoryStorage();
+    const signIn = new OAuthClient({
+      clientId: "https://app.example.com/client-metadata.json",
+      redirectUri: "https://app.example.com/oauth/callback",
+      storage,
+      handleResolver: server.handleResolver,
+      fetch: server.fetch,
+    });
+    const { session } = await signIn.callback(
+      await server.approve(await signIn.authorize("alice.test")),
+    );
+    await signIn.store("s1", session as Session);
+
+    const { client } = createTimeoutClient(server, "/oauth/token", {
+      storage,
+      refreshTimeout: 20,
+    });
+    const error = await assertRejects(() => client.restore("s1"), TimeoutError);
+    assertEquals(error.phase, "refresh");
+    assertEquals(server.isTokenActive(session.refreshToken!), true);
+    assert(await storage.get("session:s1"));
+  });
+
+  await t.step("should sign out locally when revocation times out", async () => {
+    const server = new MockAtprotoServer();
+    server.createAccount({ handle: "alice.test" });
+    const storage = new MemoryStorage();
+    const { client, aborted } = createTimeoutClient(server, "/oauth/revoke", {
+      storage,
+      timeouts: { revocation: 20 },
+    });
+    const { session } = await client.callback(
+      await server.approve(await client.authorize("alice.test")),
+    );
+    await client.store("s1", session as Session);
+
+    await client.signOut("s1", session as Session);
+    assertEquals(aborted, ["/oauth/revoke"]);
+    assertEquals(await storage.get("session:s1"), null);
+  });
+});
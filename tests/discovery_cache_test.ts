@@ -0,0 +1,120 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { DiscoveryCache, parseCacheControl } from "../src/discovery-cache.ts";
+import { MemoryStorage } from "../src/storage.ts";
+
+const URL_A = "https://pds.example.com/.well-known/oauth-protected-resource";
+
+// Serve queued responses from a fake fetch and count requests
+async function withFetch(
+  responses: Array<() => Response>,
+  fn: (count: () => number) => Promise<void>,
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  let calls = 0;
+  globalThis.fetch = () => {
+    const next = responses[Math.min(calls, responses.length - 1)]!;
+    calls++;
+    return Promise.resolve(next());
+  };
+  try {
+    await fn(() => calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+const identity = (raw: unknown) => raw as { v: number };
+
+function jsonResponse(v: number, cacheControl?: string): () => Response {
+  return () =>
+    Response.json({ v }, cacheControl ? { headers: { "Cache-Control": cacheControl } } : {});
+}
+
+function failure(): Response {
+  throw new TypeError("network unreachable");
+}
+
+Deno.test("parseCacheControl", async (t) => {
+  await t.step("returns defaults for missing header", () => {
+    assertEquals(parseCacheControl(null), { noStore: false });
+  });
+
+  await t.step("parses max-age and stale-while-revalidate", () => {
+    assertEquals(parseCacheControl("public, max-age=600, stale-while-revalidate=30"), {
+      noStore: false,
+      maxAge: 600,
+      staleWhileRevalidate: 30,
+    });
+  });
+
+  await t.step("treats no-cache as immediately stale", () => {
+    assertEquals(parseCacheControl("no-cache, max-age=600").maxAge, 0);
+  });
+
+  await t.step("detects no-store", () => {
+    assertEquals(parseCacheControl("no-store").noStore, true);
+  });
+});
+
+Deno.test("DiscoveryCache", async (t) => {
+  await t.step("serves fresh entries from cache", async () => {
+    const cache = new DiscoveryCache(new MemoryStorage());
+    await withFetch([jsonResponse(1, "max-age=60")], async (count) => {
+      assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+      assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+      assertEquals(count(), 1);
+    });
+  });
+
+  await t.step("does not cache no-store responses", async () => {
+    const cache = new DiscoveryCache(new MemoryStorage());
+    await withFetch([jsonResponse(1, "no-store"), jsonResponse(2)], async (count) => {
+      assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+      assertEquals(await cache.fetch(URL_A, identity), { v: 2 });
+      assertEquals(count(), 2);
+    });
+  });
+
+  await t.step("falls back to stale metadata when unreachable", async () => {
+    const cache = new DiscoveryCache(new MemoryStorage());
+    await withFetch([jsonResponse(1, "max-age=0"), failure], async (count) => {
+      assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+      assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+      assertEquals(count(), 2);
+    });
+  });
+
+  await t.step("serves stale while revalidating in the background", async () => {
+    const cache = new DiscoveryCache(new MemoryStorage());
+    await withFetch(
+      [jsonResponse(1, "max-age=0, stale-while-revalidate=60"), jsonResponse(2, "max-age=60")],
+      async (count) => {
+        assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+        assertEquals(await cache.fetch(URL_A, identity), { v: 1 });
+        // Let the background revalidation settle
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        assertEquals(await cache.fetch(URL_A, identity), { v: 2 });
+        assertEquals(count(), 2);
+      },
+    );
+  });
+
+  await t.step("does not cache documents that fail validation", async () => {
+    const cache = new DiscoveryCache(new MemoryStorage());
+    const strict = (raw: unknown) => {
+      if ((raw as { v: number }).v !== 2) throw new Error("invalid");
+      return raw as { v: number };
+    };
+    await withFetch([jsonResponse(1, "max-age=60"), jsonResponse(2, "max-age=60")], async () => {
+      await assertRejects(() => cache.fetch(URL_A, strict), Error, "invalid");
+      assertEquals(await cache.fetch(URL_A, strict), { v: 2 });
+    });
+  });
+
+  await t.step("throws when unreachable without a cached copy", async () => {
+    const cache = new DiscoveryCache(new MemoryStorage());
+    await withFetch([failure], async () => {
+      await assertRejects(() => cache.fetch(URL_A, identity), TypeError);
+    });
+  });
+});
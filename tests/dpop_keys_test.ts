@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Tests for pluggable DPoP key providers
+ */
+
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { importJWK, jwtVerify } from "@panva/jose";
+import { CryptoKeyDPoPKeyProvider, type DPoPSigner, JwkDPoPKeyProvider } from "../src/dpop-keys.ts";
+import { generateDPoPKeyPair, generateDPoPProof } from "../src/dpop.ts";
+import { Session } from "../src/session.ts";
+import { MemoryStorage } from "../src/storage.ts";
+import { DPoPError } from "../src/errors.ts";
+
+// Verify a DPoP proof against the public key embedded in its header
+async function verifyProof(proof: string, publicKeyJWK: JsonWebKey): Promise<void> {
+  const key = await importJWK(publicKeyJWK, "ES256");
+  const { protectedHeader } = await jwtVerify(proof, key, { typ: "dpop+jwt" });
+  assertEquals(protectedHeader.jwk, publicKeyJWK);
+}
+
+Deno.test("generateDPoPProof - signers", async (t) => {
+  await t.step("signs with an external signer", async () => {
+    const keyPair = await generateDPoPKeyPair();
+    let calls = 0;
+    const signer: DPoPSigner = {
+      sign: async (data) => {
+        calls++;
+        return new Uint8Array(
+          await crypto.subtle.sign(
+            { name: "ECDSA", hash: "SHA-256" },
+            keyPair.privateKey,
+            new Uint8Array(data),
+          ),
+        );
+      },
+    };
+
+    const proof = await generateDPoPProof(
+      "GET",
+      "https://pds.example.com/xrpc/method",
+      signer,
+      keyPair.publicKeyJWK,
+    );
+
+    assertEquals(calls, 1);
+    await verifyProof(proof, keyPair.publicKeyJWK);
+  });
+});
+
+Deno.test("JwkDPoPKeyProvider", async (t) => {
+  const provider = new JwkDPoPKeyProvider();
+
+  await t.step("stores the private key as a JWK in the reference", async () => {
+    const ref = await provider.generateKey();
+    assert(ref.privateKeyJWK?.d);
+    assertEquals(ref.keyId, undefined);
+
+    const proof = await generateDPoPProof(
+      "POST",
+      "https://pds.example.com/xrpc/method",
+      await provider.getSigner(ref),
+      ref.publicKeyJWK,
+    );
+    await verifyProof(proof, ref.publicKeyJWK);
+  });
+
+  await t.step("rejects references without a private JWK", async () => {
+    const { publicKeyJWK } = await provider.generateKey();
+    await assertRejects(() => provider.getSigner({ publicKeyJWK }), DPoPError);
+  });
+});
+
+Deno.test("CryptoKeyDPoPKeyProvider", async (t) => {
+  const storage = new MemoryStorage();
+  const provider = new CryptoKeyDPoPKeyProvider(storage);
+
+  await t.step("keeps non-extractable keys out of the reference", async () => {
+    const ref = await provider.generateKey();
+    assertEquals(ref.privateKeyJWK, undefined);
+    assert(ref.keyId);
+    assertEquals(ref.publicKeyJWK.d, undefined);
+
+    const key = await provider.getSigner(ref);
+    assertEquals(key.extractable, false);
+
+    const proof = await generateDPoPProof(
+      "GET",
+      "https://pds.example.com/xrpc/method",
+      key,
+      ref.publicKeyJWK,
+    );
+    await verifyProof(proof, ref.publicKeyJWK);
+  });
+
+  await t.step("deletes keys", async () => {
+    const ref = await provider.generateKey();
+    await provider.deleteKey(ref);
+
+    assertEquals(await storage.get(`dpop-key:${ref.keyId}`), null);
+    await assertRejects(() => provider.getSigner(ref), DPoPError, "not found");
+  });
+
+  await t.step("signs session requests without a private JWK", async () => {
+    const ref = await provider.generateKey();
+    const session = new Session({
+      did: "did:plc:test123",
+      handle: "test.bsky.social",
+      pdsUrl: "https://pds.example.com",
+      accessToken: "access-token",
+      refreshToken: "refresh-token",
+      dpopPublicKeyJWK: ref.publicKeyJWK,
+      dpopKeyId: ref.keyId!,
+      tokenExpiresAt: Date.now() + 3600_000,
+    });
+    session.setDPoPKeyProvider(provider);
+
+    const proofs: string[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+      proofs.push(new Headers(init?.headers).get("DPoP")!);
+      return Promise.resolve(new Response("ok"));
+    };
+    try {
+      await session.makeRequest("GET", "https://pds.example.com/xrpc/method");
+      await session.makeRequest("GET", "https://pds.example.com/xrpc/method");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    assertEquals(proofs.length, 2);
+    await verifyProof(proofs[0]!, ref.publicKeyJWK);
+    assertEquals(session.toJSON().dpopPrivateKeyJWK, undefined);
+  });
+});
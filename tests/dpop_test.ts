@@ -1,5 +1,6 @@
-import { assertEquals, assertNotEquals } from "@std/assert";
-import { generateDPoPKeyPair, generateDPoPProof } from "../src/dpop.ts";
+import { assert, assertEquals, assertNotEquals, assertRejects } from "@std/assert";
+import { generateDPoPKeyPair, generateDPoPProof, makeDPoPRequest } from "../src/dpop.ts";
+import { MemoryNonceStore, type NonceStore } from "../src/nonce-store.ts";
 import { decodeJwt } from "@panva/jose";
 
 Deno.test("DPoP proof - htu normalization", async (t) => {
@@ -73,38 +74,202 @@ Deno.test("DPoP proof - htu normalization", async (t) => {
 Deno.test("DPoP nonce cache", async (t) => {
   // Import cache functions
   const { getCachedNonce, updateNonceCache } = await import("../src/dpop.ts");
+  const store = new MemoryNonceStore();
 
-  await t.step("returns undefined for unknown origins", () => {
-    const nonce = getCachedNonce("https://unknown-origin.example.com/path");
+  await t.step("returns undefined for unknown origins", async () => {
+    const nonce = await getCachedNonce(store, "https://unknown-origin.example.com/path");
     assertEquals(nonce, undefined);
   });
 
-  await t.step("stores and retrieves nonce per origin", () => {
+  await t.step("stores and retrieves nonce per origin", async () => {
     const mockResponse = new Response(null, {
       headers: { "DPoP-Nonce": "nonce-abc" },
     });
-    updateNonceCache("https://cache-test.example.com/oauth/token", mockResponse);
+    await updateNonceCache(store, "https://cache-test.example.com/oauth/token", mockResponse);
 
-    assertEquals(getCachedNonce("https://cache-test.example.com/other"), "nonce-abc");
+    assertEquals(await getCachedNonce(store, "https://cache-test.example.com/other"), "nonce-abc");
   });
 
-  await t.step("updates nonce from new response", () => {
+  await t.step("updates nonce from new response", async () => {
     const response1 = new Response(null, {
       headers: { "DPoP-Nonce": "nonce-1" },
     });
-    updateNonceCache("https://update-test.example.com/a", response1);
-    assertEquals(getCachedNonce("https://update-test.example.com/b"), "nonce-1");
+    await updateNonceCache(store, "https://update-test.example.com/a", response1);
+    assertEquals(await getCachedNonce(store, "https://update-test.example.com/b"), "nonce-1");
 
     const response2 = new Response(null, {
       headers: { "DPoP-Nonce": "nonce-2" },
     });
-    updateNonceCache("https://update-test.example.com/c", response2);
-    assertEquals(getCachedNonce("https://update-test.example.com/d"), "nonce-2");
+    await updateNonceCache(store, "https://update-test.example.com/c", response2);
+    assertEquals(await getCachedNonce(store, "https://update-test.example.com/d"), "nonce-2");
   });
 
-  await t.step("ignores responses without DPoP-Nonce header", () => {
+  await t.step("ignores responses without DPoP-Nonce header", async () => {
     const response = new Response(null);
-    updateNonceCache("https://no-nonce.example.com/path", response);
-    assertEquals(getCachedNonce("https://no-nonce.example.com/path"), undefined);
+    await updateNonceCache(store, "https://no-nonce.example.com/path", response);
+    assertEquals(await getCachedNonce(store, "https://no-nonce.example.com/path"), undefined);
+  });
+
+  await t.step("keeps nonces separate per store", async () => {
+    const otherStore = new MemoryNonceStore();
+    assertEquals(await getCachedNonce(otherStore, "https://cache-test.example.com/"), undefined);
+  });
+
+  await t.step("treats a failing store as a cache miss", async () => {
+    const failing: NonceStore = {
+      get: () => Promise.reject(new Error("storage down")),
+      set: () => Promise.reject(new Error("storage down")),
+    };
+    const response = new Response(null, { headers: { "DPoP-Nonce": "n" } });
+    await updateNonceCache(failing, "https://failing.example.com/", response);
+    assertEquals(await getCachedNonce(failing, "https://failing.example.com/"), undefined);
+  });
+});
+
+interface CapturedRequest {
+  headers: Headers;
+  body: string;
+}
+
+// Stub fetch to capture each request; the first response can challenge for a nonce
+async function withCapturedFetch(
+  firstResponse: Response,
+  fn: (requests: CapturedRequest[]) => Promise<void>,
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  const requests: CapturedRequest[] = [];
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push({ headers: request.headers, body: await request.text() });
+    return requests.length === 1 ? firstResponse : new Response("ok");
+  };
+  try {
+    await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+Deno.test("makeDPoPRequest - request bodies", async (t) => {
+  const keyPair = await generateDPoPKeyPair();
+  const send = (url: string, body?: BodyInit, headers?: HeadersInit) =>
+    makeDPoPRequest(
+      "POST",
+      url,
+      "access-token",
+      keyPair.privateKey,
+      keyPair.publicKeyJWK,
+      new MemoryNonceStore(),
+      { ...(body ? { body } : {}), ...(headers ? { headers } : {}) },
+    );
+
+  await t.step("sends binary bodies unchanged with the caller's content type", async () => {
+    await withCapturedFetch(new Response("ok"), async (requests) => {
+      await send(
+        "https://bodies-1.example.com/xrpc/com.atproto.repo.uploadBlob",
+        new Uint8Array([104, 105]),
+        {
+          "Content-Type": "image/png",
+        },
+      );
+      assertEquals(requests[0]!.body, "hi");
+      assertEquals(requests[0]!.headers.get("Content-Type"), "image/png");
+    });
+  });
+
+  await t.step("lets fetch derive the content type for FormData", async () => {
+    await withCapturedFetch(new Response("ok"), async (requests) => {
+      const form = new FormData();
+      form.set("field", "value");
+      await send("https://bodies-2.example.com/upload", form);
+      assert(requests[0]!.headers.get("Content-Type")?.startsWith("multipart/form-data"));
+    });
+  });
+
+  await t.step("defaults string bodies to JSON", async () => {
+    await withCapturedFetch(new Response("ok"), async (requests) => {
+      await send("https://bodies-3.example.com/xrpc/method", JSON.stringify({ a: 1 }));
+      assertEquals(requests[0]!.headers.get("Content-Type"), "application/json");
+    });
+  });
+
+  await t.step("replays stream bodies on the nonce retry", async () => {
+    const challenge = new Response(null, { status: 401, headers: { "DPoP-Nonce": "n-1" } });
+    await withCapturedFetch(challenge, async (requests) => {
+      const stream = new Blob(["streamed"]).stream();
+      const response = await send("https://bodies-4.example.com/xrpc/method", stream, {
+        "Content-Type": "video/mp4",
+      });
+      assertEquals(response.status, 200);
+      assertEquals(requests.length, 2);
+      assertEquals(requests[0]!.body, "streamed");
+      assertEquals(requests[1]!.body, "streamed");
+      assertEquals(decodeJwt(requests[1]!.headers.get("DPoP")!).nonce, "n-1");
+    });
+  });
+});
+
+Deno.test("makeDPoPRequest - cancellation", async (t) => {
+  const keyPair = await generateDPoPKeyPair();
+  const originalFetch = globalThis.fetch;
+
+  await t.step("does not retry the nonce challenge once aborted", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    globalThis.fetch = () => {
+      calls++;
+      controller.abort();
+      return Promise.resolve(
+        new Response(null, { status: 401, headers: { "DPoP-Nonce": "n-abort" } }),
+      );
+    };
+
+    try {
+      const error = await assertRejects(() =>
+        makeDPoPRequest(
+          "GET",
+          "https://cancel.example.com/xrpc/method",
+          "access-token",
+          keyPair.privateKey,
+          keyPair.publicKeyJWK,
+          new MemoryNonceStore(),
+          { signal: controller.signal },
+        )
+      );
+      assertEquals((error as DOMException).name, "AbortError");
+      assertEquals(calls, 1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+Deno.test("makeDPoPRequest - nonce store", async (t) => {
+  const keyPair = await generateDPoPKeyPair();
+  const originalFetch = globalThis.fetch;
+
+  await t.step("uses the stored nonce and saves the one returned", async () => {
+    const store = new MemoryNonceStore();
+    await store.set("https://nonce-store.example.com", "stored-nonce");
+    const proofs: string[] = [];
+    globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+      proofs.push(new Headers(init?.headers).get("DPoP")!);
+      return Promise.resolve(new Response("ok", { headers: { "DPoP-Nonce": "next-nonce" } }));
+    };
+
+    try {
+      await makeDPoPRequest(
+        "GET",
+        "https://nonce-store.example.com/xrpc/method",
+        "access-token",
+        keyPair.privateKey,
+        keyPair.publicKeyJWK,
+        store,
+      );
+      assertEquals(decodeJwt(proofs[0]!).nonce, "stored-nonce");
+      assertEquals(await store.get("https://nonce-store.example.com"), "next-nonce");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
   });
 });
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Tests for the encrypted-at-rest storage wrapper
+ */
+
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { EncryptedStorage } from "../src/encrypted-storage.ts";
+import { DenoKvStorage, MemoryStorage } from "../src/storage.ts";
+import { OAuthError, StorageIntegrityError } from "../src/errors.ts";
+
+const sessionData = {
+  did: "did:plc:test123",
+  accessToken: "secret-access-token",
+  refreshToken: "secret-refresh-token",
+};
+
+Deno.test("EncryptedStorage - round trip", async (t) => {
+  await t.step("should decrypt what it encrypts", async () => {
+    const storage = new EncryptedStorage(new MemoryStorage(), {
+      keys: [{ id: "k1", key: EncryptedStorage.generateKey() }],
+    });
+
+    await storage.set("session:alice", sessionData);
+    assertEquals(await storage.get("session:alice"), sessionData);
+    assertEquals(await storage.get("session:missing"), null);
+  });
+
+  await t.step("should never write plaintext to the backend", async () => {
+    const backend = new MemoryStorage();
+    const storage = new EncryptedStorage(backend, {
+      keys: [{ id: "k1", key: EncryptedStorage.generateKey() }],
+    });
+
+    await storage.set("session:alice", sessionData);
+    const raw = JSON.stringify(await backend.get("session:alice"));
+    assert(!raw.includes("secret-access-token"));
+    assert(!raw.includes("secret-refresh-token"));
+    assert(raw.includes('"kid":"k1"'));
+  });
+
+  await t.step("should accept a CryptoKey", async () => {
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    const storage = new EncryptedStorage(new MemoryStorage(), { keys: [{ id: "k1", key }] });
+
+    await storage.set("session:alice", sessionData);
+    assertEquals(await storage.get("session:alice"), sessionData);
+  });
+
+  await t.step("should delete through to the backend", async () => {
+    const backend = new MemoryStorage();
+    const storage = new EncryptedStorage(backend, {
+      keys: [{ id: "k1", key: EncryptedStorage.generateKey() }],
+    });
+
+    await storage.set("session:alice", sessionData);
+    await storage.delete("session:alice");
+    assertEquals(await backend.get("session:alice"), null);
+  });
+});
+
+Deno.test("EncryptedStorage - key rotation", async (t) => {
+  const oldKey = { id: "old", key: EncryptedStorage.generateKey() };
+  const newKey = { id: "new", key: EncryptedStorage.generateKey() };
+
+  await t.step("should decrypt with old keys and re-encrypt with the current key", async () => {
+    const backend = new MemoryStorage();
+    await new EncryptedStorage(backend, { keys: [oldKey] }).set("session:alice", sessionData);
+
+    const rotated = new EncryptedStorage(backend, { keys: [newKey, oldKey] });
+    const value = await rotated.get("session:alice");
+    assertEquals(value, sessionData);
+
+    await rotated.set("session:alice", value);
+    assertEquals((await backend.get<{ kid: string }>("session:alice"))?.kid, "new");
+
+    // Readable once the old key is retired
+    const retired = new EncryptedStorage(backend, { keys: [newKey] });
+    assertEquals(await retired.get("session:alice"), sessionData);
+  });
+
+  await t.step("should honor currentKeyId", async () => {
+    const backend = new MemoryStorage();
+    const storage = new EncryptedStorage(backend, {
+      keys: [newKey, oldKey],
+      currentKeyId: "old",
+    });
+
+    await storage.set("session:alice", sessionData);
+    assertEquals((await backend.get<{ kid: string }>("session:alice"))?.kid, "old");
+  });
+});
+
+Deno.test("EncryptedStorage - tamper detection", async (t) => {
+  const key = { id: "k1", key: EncryptedStorage.generateKey() };
+
+  await t.step("should reject modified ciphertext", async () => {
+    const backend = new MemoryStorage();
+    const storage = new EncryptedStorage(backend, { keys: [key] });
+    await storage.set("session:alice", sessionData);
+
+    const envelope = (await backend.get<{ ct: string }>("session:alice"))!;
+    const flipped = envelope.ct[0] === "A" ? "B" : "A";
+    await backend.set("session:alice", { ...envelope, ct: flipped + envelope.ct.slice(1) });
+
+    const error = await assertRejects(() => storage.get("session:alice"), StorageIntegrityError);
+    assertEquals(error.storageKey, "session:alice");
+  });
+
+  await t.step("should reject values moved to a different key", async () => {
+    const backend = new MemoryStorage();
+    const storage = new EncryptedStorage(backend, { keys: [key] });
+    await storage.set("session:alice", sessionData);
+
+    await backend.set("session:mallory", await backend.get("session:alice"));
+    await assertRejects(() => storage.get("session:mallory"), StorageIntegrityError);
+  });
+
+  await t.step("should reject unknown key IDs", async () => {
+    const backend = new MemoryStorage();
+    await new EncryptedStorage(backend, {
+      keys: [{ id: "other", key: EncryptedStorage.generateKey() }],
+    }).set("session:alice", sessionData);
+
+    await assertRejects(
+      () => new EncryptedStorage(backend, { keys: [key] }).get("session:alice"),
+      StorageIntegrityError,
+      "unknown encryption key ID",
+    );
+  });
+
+  await t.step("should reject plaintext unless allowed", async () => {
+    const backend = new MemoryStorage();
+    await backend.set("session:alice", sessionData);
+
+    await assertRejects(
+      () => new EncryptedStorage(backend, { keys: [key] }).get("session:alice"),
+      StorageIntegrityError,
+    );
+    assertEquals(
+      await new EncryptedStorage(backend, { keys: [key], allowPlaintext: true }).get(
+        "session:alice",
+      ),
+      sessionData,
+    );
+  });
+});
+
+Deno.test("EncryptedStorage - configuration", async (t) => {
+  await t.step("should require at least one key", () => {
+    assertThrows(() => new EncryptedStorage(new MemoryStorage(), { keys: [] }), OAuthError);
+  });
+
+  await t.step("should reject keys of the wrong length", () => {
+    assertThrows(
+      () =>
+        new EncryptedStorage(new MemoryStorage(), {
+          keys: [{ id: "short", key: new Uint8Array(16) }],
+        }),
+      OAuthError,
+      "32 bytes",
+    );
+  });
+
+  await t.step("should reject duplicate and unknown key IDs", () => {
+    const key = EncryptedStorage.generateKey();
+    assertThrows(
+      () =>
+        new EncryptedStorage(new MemoryStorage(), {
+          keys: [{ id: "k1", key }, { id: "k1", key }],
+        }),
+      OAuthError,
+    );
+    assertThrows(
+      () =>
+        new EncryptedStorage(new MemoryStorage(), {
+          keys: [{ id: "k1", key }],
+          currentKeyId: "k2",
+        }),
+      OAuthError,
+    );
+  });
+});
+
+Deno.test("EncryptedStorage - optional operations", async (t) => {
+  const kv = await Deno.openKv(":memory:");
+  const backend = new DenoKvStorage(kv, { prefix: ["test", "encrypted"] });
+  const storage = new EncryptedStorage(backend, {
+    keys: [{ id: "k1", key: EncryptedStorage.generateKey() }],
+  });
+
+  try {
+    await t.step("should expose only what the backend supports", () => {
+      assert(storage.getAndDelete);
+      assert(storage.compareAndSet);
+      assert(storage.list);
+
+      const minimal = new EncryptedStorage(
+        {
+          get: () => Promise.resolve(null),
+          set: () => Promise.resolve(),
+          delete: () => Promise.resolve(),
+        },
+        { keys: [{ id: "k1", key: EncryptedStorage.generateKey() }] },
+      );
+      assertEquals(minimal.getAndDelete, undefined);
+      assertEquals(minimal.compareAndSet, undefined);
+      assertEquals(minimal.list, undefined);
+    });
+
+    await t.step("should decrypt the value returned by getAndDelete", async () => {
+      await storage.set("state:abc", sessionData);
+
+      assertEquals(await storage.getAndDelete!("state:abc"), sessionData);
+      assertEquals(await backend.get("state:abc"), null);
+      assertEquals(await storage.getAndDelete!("state:abc"), null);
+    });
+
+    await t.step("should compare against the decrypted value", async () => {
+      const updated = { ...sessionData, accessToken: "rotated-access-token" };
+
+      assert(await storage.compareAndSet!("session:alice", null, sessionData));
+      assertEquals(await storage.get("session:alice"), sessionData);
+      assert(!(await storage.compareAndSet!("session:alice", null, updated)));
+
+      assert(await storage.compareAndSet!("session:alice", sessionData, updated));
+      assertEquals(await storage.get("session:alice"), updated);
+      assert(!(await storage.compareAndSet!("session:alice", sessionData, updated)));
+
+      const raw = JSON.stringify(await backend.get("session:alice"));
+      assert(!raw.includes("rotated-access-token"));
+    });
+
+    await t.step("should pass list through unchanged", async () => {
+      await storage.set("session:bob", sessionData);
+
+      assertEquals((await storage.list!("session:")).sort(), ["session:alice", "session:bob"]);
+      assertEquals(await storage.list!("state:"), []);
+    });
+  } finally {
+    kv.close();
+  }
+});
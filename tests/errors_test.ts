@@ -7,11 +7,17 @@ import {
   InvalidStateError,
   IssuerMismatchError,
   MetadataValidationError,
+  NetworkError,
   OAuthError,
   PDSDiscoveryError,
+  SessionDataCorruptError,
   SessionError,
+  StorageIntegrityError,
+  TimeoutError,
   TokenExchangeError,
   TokenValidationError,
+  UnsupportedDidMethodError,
+  XRPCError,
 } from "../src/errors.ts";
 
 Deno.test("OAuthError", async (t) => {
@@ -249,3 +255,74 @@ Deno.test("TokenValidationError", async (t) => {
     assertInstanceOf(error, OAuthError);
   });
 });
+
+Deno.test("UnsupportedDidMethodError", async (t) => {
+  await t.step("should include DID in message and property", () => {
+    const error = new UnsupportedDidMethodError("did:key:z6Mk");
+    assertEquals(error.name, "UnsupportedDidMethodError");
+    assertEquals(error.did, "did:key:z6Mk");
+    assert(error.message.includes("did:key:z6Mk"));
+  });
+
+  await t.step("should be instance of OAuthError", () => {
+    const error = new UnsupportedDidMethodError("did:key:z6Mk");
+    assertInstanceOf(error, OAuthError);
+  });
+});
+
+Deno.test("XRPCError", async (t) => {
+  await t.step("should carry lexicon error fields", () => {
+    const error = new XRPCError("com.atproto.repo.getRecord", 400, "RecordNotFound", "Not found");
+    assertEquals(error.name, "XRPCError");
+    assertEquals(error.nsid, "com.atproto.repo.getRecord");
+    assertEquals(error.status, 400);
+    assertEquals(error.error, "RecordNotFound");
+    assertEquals(error.errorMessage, "Not found");
+    assert(error.message.includes("RecordNotFound"));
+  });
+
+  await t.step("should be instance of OAuthError", () => {
+    const error = new XRPCError("com.atproto.repo.getRecord", 500, "InternalServerError");
+    assertInstanceOf(error, OAuthError);
+    assertEquals(error.errorMessage, undefined);
+  });
+});
+
+Deno.test("StorageIntegrityError", async (t) => {
+  await t.step("should include storage key and cause", () => {
+    const cause = new Error("OperationError");
+    const error = new StorageIntegrityError("session:alice", "decryption failed", cause);
+    assertEquals(error.name, "StorageIntegrityError");
+    assertEquals(error.storageKey, "session:alice");
+    assertEquals(error.cause, cause);
+    assert(error.message.includes("session:alice"));
+    assertInstanceOf(error, OAuthError);
+  });
+});
+
+Deno.test("SessionDataCorruptError", async (t) => {
+  await t.step("should include reason and session ID", () => {
+    const error = new SessionDataCorruptError("missing or invalid 'did'", "user-123");
+    assertEquals(error.name, "SessionDataCorruptError");
+    assertEquals(error.reason, "missing or invalid 'did'");
+    assertEquals(error.sessionId, "user-123");
+    assert(error.message.includes("user-123"));
+    assertInstanceOf(error, SessionError);
+  });
+});
+
+Deno.test("TimeoutError", async (t) => {
+  await t.step("should name the phase and timeout", () => {
+    const error = new TimeoutError("handleResolution", 10_000);
+    assertEquals(error.name, "TimeoutError");
+    assertEquals(error.phase, "handleResolution");
+    assertEquals(error.timeoutMs, 10_000);
+    assertEquals(error.message, "Network error: handle resolution timed out after 10000ms");
+  });
+
+  await t.step("should be instance of NetworkError", () => {
+    const error = new TimeoutError("refresh", 30_000);
+    assertInstanceOf(error, NetworkError);
+    assertInstanceOf(error, OAuthError);
+  });
+});
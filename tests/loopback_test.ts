@@ -0,0 +1,119 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  buildLoopbackClientId,
+  isLoopbackClientId,
+  validateLoopbackRedirectUri,
+  validateLoopbackScope,
+} from "../src/loopback.ts";
+import { OAuthClient } from "../src/client.ts";
+import { MemoryStorage } from "../src/storage.ts";
+import { OAuthError } from "../src/errors.ts";
+
+Deno.test("isLoopbackClientId", async (t) => {
+  await t.step("accepts http://localhost with or without query", () => {
+    assertEquals(isLoopbackClientId("http://localhost"), true);
+    assertEquals(isLoopbackClientId("http://localhost?scope=atproto"), true);
+  });
+
+  await t.step("rejects hosted and non-standard client IDs", () => {
+    assertEquals(isLoopbackClientId("https://myapp.com/client-metadata.json"), false);
+    assertEquals(isLoopbackClientId("http://localhost:8080"), false);
+    assertEquals(isLoopbackClientId("http://localhost/client-metadata.json"), false);
+    assertEquals(isLoopbackClientId("not a url"), false);
+  });
+});
+
+Deno.test("validateLoopbackRedirectUri", async (t) => {
+  await t.step("accepts loopback IP redirect URIs", () => {
+    validateLoopbackRedirectUri("http://127.0.0.1:8080/callback");
+    validateLoopbackRedirectUri("http://[::1]/");
+  });
+
+  await t.step("rejects localhost hostname and https", () => {
+    assertThrows(() => validateLoopbackRedirectUri("http://localhost:8080/"), OAuthError);
+    assertThrows(() => validateLoopbackRedirectUri("https://127.0.0.1/"), OAuthError);
+  });
+});
+
+Deno.test("buildLoopbackClientId", async (t) => {
+  await t.step("encodes redirect_uri and scope as query params", () => {
+    const clientId = buildLoopbackClientId(
+      "http://127.0.0.1:8080/callback",
+      "atproto transition:generic",
+    );
+    const url = new URL(clientId);
+    assertEquals(url.origin, "http://localhost");
+    assertEquals(url.searchParams.get("redirect_uri"), "http://127.0.0.1:8080/callback");
+    assertEquals(url.searchParams.get("scope"), "atproto transition:generic");
+  });
+});
+
+Deno.test("validateLoopbackScope", async (t) => {
+  const clientId = buildLoopbackClientId(
+    "http://127.0.0.1:8080/callback",
+    "atproto repo:app.bsky.feed.post?action=create&action=update",
+  );
+
+  await t.step("accepts scopes listed in the client ID", () => {
+    validateLoopbackScope(clientId, "atproto");
+    validateLoopbackScope(clientId, "repo:app.bsky.feed.post?action=update&action=create atproto");
+  });
+
+  await t.step("rejects permissions the client ID does not list", () => {
+    assertThrows(
+      () => validateLoopbackScope(clientId, "atproto transition:generic"),
+      OAuthError,
+      "transition:generic",
+    );
+  });
+
+  await t.step("treats a client ID without scope as atproto", () => {
+    validateLoopbackScope("http://localhost", "atproto");
+    assertThrows(() => validateLoopbackScope("http://localhost", "atproto blob:*/*"), OAuthError);
+  });
+});
+
+Deno.test("OAuthClient.loopback", async (t) => {
+  await t.step("builds a loopback client from port, path and scope", () => {
+    const client = OAuthClient.loopback({
+      port: 8080,
+      path: "/oauth/callback",
+      scope: "atproto",
+      storage: new MemoryStorage(),
+    });
+    const metadata = client.getClientMetadata();
+    const clientId = new URL(metadata.client_id);
+    assertEquals(clientId.origin, "http://localhost");
+    assertEquals(clientId.searchParams.get("redirect_uri"), "http://127.0.0.1:8080/oauth/callback");
+    assertEquals(clientId.searchParams.get("scope"), "atproto");
+    assertEquals(metadata.redirect_uris, ["http://127.0.0.1:8080/oauth/callback"]);
+  });
+
+  await t.step("defaults to http://127.0.0.1/ and the default scope", () => {
+    const client = OAuthClient.loopback({ storage: new MemoryStorage() });
+    const metadata = client.getClientMetadata();
+    assertEquals(metadata.redirect_uris, ["http://127.0.0.1/"]);
+    assertEquals(metadata.scope, "atproto transition:generic");
+  });
+
+  await t.step("rejects an authorize scope outside the client ID scope", async () => {
+    const client = OAuthClient.loopback({ scope: "atproto", storage: new MemoryStorage() });
+    await assertRejects(
+      () => client.authorize("alice.bsky.social", { scope: "atproto transition:generic" }),
+      OAuthError,
+      "loopback client ID",
+    );
+  });
+
+  await t.step("rejects non-loopback redirect URIs for loopback client IDs", () => {
+    assertThrows(
+      () =>
+        new OAuthClient({
+          clientId: "http://localhost",
+          redirectUri: "https://myapp.com/callback",
+          storage: new MemoryStorage(),
+        }),
+      OAuthError,
+    );
+  });
+});
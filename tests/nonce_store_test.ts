@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Tests for DPoP nonce stores
+ */
+
+import { assertEquals } from "@std/assert";
+import { MemoryNonceStore, StorageNonceStore } from "../src/nonce-store.ts";
+import { MemoryStorage } from "../src/storage.ts";
+
+Deno.test("MemoryNonceStore", async (t) => {
+  await t.step("should store nonces per origin", async () => {
+    const store = new MemoryNonceStore();
+    await store.set("https://a.example.com", "nonce-a");
+    await store.set("https://b.example.com", "nonce-b");
+
+    assertEquals(await store.get("https://a.example.com"), "nonce-a");
+    assertEquals(await store.get("https://b.example.com"), "nonce-b");
+    assertEquals(await store.get("https://c.example.com"), undefined);
+  });
+
+  await t.step("should expire nonces after the ttl", async () => {
+    const store = new MemoryNonceStore({ ttl: 0.05 });
+    await store.set("https://a.example.com", "nonce-a");
+    assertEquals(await store.get("https://a.example.com"), "nonce-a");
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assertEquals(await store.get("https://a.example.com"), undefined);
+    assertEquals(store.size, 0);
+  });
+
+  await t.step("should evict the least recently used origin", async () => {
+    const store = new MemoryNonceStore({ maxEntries: 2 });
+    await store.set("https://a.example.com", "nonce-a");
+    await store.set("https://b.example.com", "nonce-b");
+
+    // Touch a so b becomes least recently used
+    await store.get("https://a.example.com");
+    await store.set("https://c.example.com", "nonce-c");
+
+    assertEquals(store.size, 2);
+    assertEquals(await store.get("https://a.example.com"), "nonce-a");
+    assertEquals(await store.get("https://b.example.com"), undefined);
+    assertEquals(await store.get("https://c.example.com"), "nonce-c");
+  });
+});
+
+Deno.test("StorageNonceStore", async (t) => {
+  await t.step("should share nonces through the storage backend", async () => {
+    const storage = new MemoryStorage();
+    await new StorageNonceStore(storage).set("https://a.example.com", "nonce-a");
+
+    assertEquals(await new StorageNonceStore(storage).get("https://a.example.com"), "nonce-a");
+    assertEquals(await storage.get("dpop-nonce:https://a.example.com"), "nonce-a");
+  });
+
+  await t.step("should use the configured prefix", async () => {
+    const storage = new MemoryStorage();
+    const store = new StorageNonceStore(storage, { prefix: "app1:nonce:" });
+    await store.set("https://a.example.com", "nonce-a");
+
+    assertEquals(await storage.get("app1:nonce:https://a.example.com"), "nonce-a");
+    assertEquals(await store.get("https://b.example.com"), undefined);
+  });
+});
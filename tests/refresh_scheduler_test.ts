@@ -0,0 +1,145 @@
+import { assertEquals } from "@std/assert";
+import { RefreshScheduler, type SchedulerClock } from "../src/refresh-scheduler.ts";
+import { Session, type SessionData } from "../src/session.ts";
+import { NetworkError, RefreshTokenExpiredError } from "../src/errors.ts";
+import { NoOpLogger } from "../src/logger.ts";
+
+function createSession(expiresInMs: number): Session {
+  const data: SessionData = {
+    did: "did:plc:test123",
+    handle: "test.bsky.social",
+    pdsUrl: "https://test.bsky.social",
+    accessToken: "access",
+    refreshToken: "refresh",
+    dpopPrivateKeyJWK: {},
+    dpopPublicKeyJWK: {},
+    tokenExpiresAt: Date.now() + expiresInMs,
+  };
+  return new Session(data);
+}
+
+// Manually advanced clock; timers only fire inside tick()
+class FakeClock implements SchedulerClock {
+  private time = 0;
+  private nextId = 1;
+  private readonly pending = new Map<number, { at: number; fn: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, delay: number): number {
+    const id = this.nextId++;
+    this.pending.set(id, { at: this.time + delay, fn });
+    return id;
+  }
+
+  clearTimeout(id: unknown): void {
+    this.pending.delete(id as number);
+  }
+
+  // Advance time, firing due timers in order and letting their async work settle
+  async tick(ms: number): Promise<void> {
+    const end = this.time + ms;
+    while (true) {
+      const [id, next] = [...this.pending].sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+      if (id === undefined || next!.at > end) break;
+      this.pending.delete(id);
+      this.time = next!.at;
+      next!.fn();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    this.time = end;
+  }
+}
+
+Deno.test("RefreshScheduler", async (t) => {
+  await t.step("refreshes leadTime before expiry", async () => {
+    const clock = new FakeClock();
+    const refreshed: string[] = [];
+    const scheduler = new RefreshScheduler(
+      (sessionId) => {
+        refreshed.push(sessionId);
+        return Promise.resolve();
+      },
+      new NoOpLogger(),
+      { leadTime: 60_000, jitter: 0 },
+      clock,
+    );
+
+    scheduler.schedule("due", createSession(60_010));
+    scheduler.schedule("later", createSession(120_000));
+    assertEquals(scheduler.size, 2);
+
+    await clock.tick(1_000);
+    assertEquals(refreshed, ["due"]);
+    assertEquals(scheduler.size, 1);
+    scheduler.dispose();
+  });
+
+  await t.step("re-scheduling replaces the pending refresh", async () => {
+    const clock = new FakeClock();
+    let calls = 0;
+    const scheduler = new RefreshScheduler(
+      () => {
+        calls++;
+        return Promise.resolve();
+      },
+      new NoOpLogger(),
+      { leadTime: 0, jitter: 0 },
+      clock,
+    );
+
+    scheduler.schedule("a", createSession(10));
+    scheduler.schedule("a", createSession(10));
+    await clock.tick(1_000);
+    assertEquals(calls, 1);
+    scheduler.dispose();
+  });
+
+  await t.step("retries network failures and drops other failures", async () => {
+    const clock = new FakeClock();
+    const attempts = new Map<string, number>();
+    const scheduler = new RefreshScheduler(
+      (sessionId) => {
+        attempts.set(sessionId, (attempts.get(sessionId) ?? 0) + 1);
+        return Promise.reject(
+          sessionId === "flaky" ? new NetworkError("offline") : new RefreshTokenExpiredError(),
+        );
+      },
+      new NoOpLogger(),
+      { leadTime: 0, jitter: 0, retryDelay: 10 },
+      clock,
+    );
+
+    scheduler.schedule("flaky", createSession(0));
+    scheduler.schedule("expired", createSession(0));
+    await clock.tick(35);
+    scheduler.dispose();
+
+    assertEquals(attempts.get("flaky"), 4);
+    assertEquals(attempts.get("expired"), 1);
+  });
+
+  await t.step("dispose cancels pending refreshes", async () => {
+    const clock = new FakeClock();
+    let calls = 0;
+    const scheduler = new RefreshScheduler(
+      () => {
+        calls++;
+        return Promise.resolve();
+      },
+      new NoOpLogger(),
+      { leadTime: 0, jitter: 0 },
+      clock,
+    );
+
+    scheduler.schedule("a", createSession(10));
+    scheduler.dispose();
+    scheduler.schedule("b", createSession(10));
+    await clock.tick(1_000);
+
+    assertEquals(calls, 0);
+    assertEquals(scheduler.size, 0);
+  });
+});
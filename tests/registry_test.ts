@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Tests for the multi-tenant client registry
+ */
+
+import { assertEquals, assertInstanceOf, assertRejects, assertThrows } from "@std/assert";
+import { OAuthClient } from "../src/client.ts";
+import { OAuthClientRegistry } from "../src/registry.ts";
+import { MemoryStorage } from "../src/storage.ts";
+import { InvalidStateError, IssuerMismatchError, OAuthError } from "../src/errors.ts";
+
+function createRegistry(): { registry: OAuthClientRegistry; storage: MemoryStorage } {
+  const storage = new MemoryStorage();
+  const registry = new OAuthClientRegistry({ storage });
+  registry.register("blog", {
+    clientId: "https://blog.example.com/client-metadata.json",
+    redirectUri: "https://blog.example.com/oauth/callback",
+  });
+  registry.register("photos", {
+    clientId: "https://photos.example.com/client-metadata.json",
+    redirectUri: "https://photos.example.com/auth/photos/callback",
+  });
+  return { registry, storage };
+}
+
+Deno.test("OAuthClientRegistry - registration", async (t) => {
+  await t.step("should expose registered clients by ID", () => {
+    const { registry } = createRegistry();
+    assertEquals(registry.ids, ["blog", "photos"]);
+    assertInstanceOf(registry.get("blog"), OAuthClient);
+    assertEquals(registry.get("unknown"), undefined);
+  });
+
+  await t.step("should reject duplicate IDs and namespaces", () => {
+    const { registry } = createRegistry();
+    const config = {
+      clientId: "https://other.example.com/client-metadata.json",
+      redirectUri: "https://other.example.com/oauth/callback",
+    };
+    assertThrows(() => registry.register("blog", config), OAuthError, "already registered");
+    assertThrows(
+      () => registry.register("other", { ...config, namespace: "photos" }),
+      OAuthError,
+      "already in use",
+    );
+    assertThrows(
+      () => registry.register("other", { ...config, namespace: "a:b" }),
+      OAuthError,
+      "Invalid storage namespace",
+    );
+  });
+});
+
+Deno.test("OAuthClientRegistry - callback routing", async (t) => {
+  await t.step("should route by redirect path", async () => {
+    const { registry } = createRegistry();
+    const { id } = await registry.resolveCallback(
+      new URL("https://photos.example.com/auth/photos/callback?code=abc&state=xyz"),
+    );
+    assertEquals(id, "photos");
+  });
+
+  await t.step("should route by state when the path does not match", async () => {
+    const { registry, storage } = createRegistry();
+    await storage.set("photos:pkce:state-1", { issuer: "https://auth.example.com" });
+
+    const { id } = await registry.resolveCallback(
+      new URLSearchParams({ code: "abc", state: "state-1" }),
+    );
+    assertEquals(id, "photos");
+  });
+
+  await t.step("should reject callbacks no client matches", async () => {
+    const { registry } = createRegistry();
+    await assertRejects(
+      () => registry.resolveCallback(new URLSearchParams({ code: "abc", state: "unknown" })),
+      InvalidStateError,
+    );
+  });
+
+  await t.step("should complete the callback with the client's namespaced state", async () => {
+    const { registry, storage } = createRegistry();
+    await storage.set("blog:pkce:state-2", { issuer: "https://auth.example.com" });
+
+    // The iss check runs after the PKCE state was found in the blog namespace
+    await assertRejects(
+      () =>
+        registry.callback(
+          new URLSearchParams({ code: "abc", state: "state-2", iss: "https://evil.example.com" }),
+        ),
+      IssuerMismatchError,
+    );
+    assertEquals(await storage.get("blog:pkce:state-2"), null);
+  });
+});
@@ -0,0 +1,272 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  CustomResolver,
+  DirectoryResolver,
+  discoverOAuthEndpointsFromAuthServer,
+  getDidDocumentUrl,
+  INVALID_HANDLE,
+  resolveDidDocument,
+  SlingshotResolver,
+  verifyHandle,
+} from "../src/resolvers.ts";
+import { PDSDiscoveryError, UnsupportedDidMethodError } from "../src/errors.ts";
+
+// Replace globalThis.fetch for the duration of a test step
+async function withFetch(
+  handler: (url: string) => Response,
+  fn: (requested: string[]) => Promise<void>,
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    requested.push(url);
+    return Promise.resolve(handler(url));
+  };
+  try {
+    await fn(requested);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+function didDocument(did: string, pds = "https://pds.example.com/") {
+  return {
+    id: did,
+    alsoKnownAs: ["at://alice.example.com"],
+    service: [{
+      id: "#atproto_pds",
+      type: "AtprotoPersonalDataServer",
+      serviceEndpoint: pds,
+    }],
+  };
+}
+
+// --- getDidDocumentUrl ---
+
+Deno.test("getDidDocumentUrl", async (t) => {
+  await t.step("uses the PLC directory for did:plc", () => {
+    assertEquals(
+      getDidDocumentUrl("did:plc:abc123"),
+      "https://plc.directory/did%3Aplc%3Aabc123",
+    );
+  });
+
+  await t.step("uses a custom PLC directory", () => {
+    assertEquals(
+      getDidDocumentUrl("did:plc:abc123", "https://plc.example.com/"),
+      "https://plc.example.com/did%3Aplc%3Aabc123",
+    );
+  });
+
+  await t.step("uses the well-known path for did:web", () => {
+    assertEquals(
+      getDidDocumentUrl("did:web:example.com"),
+      "https://example.com/.well-known/did.json",
+    );
+  });
+
+  await t.step("decodes percent-encoded ports in did:web", () => {
+    assertEquals(
+      getDidDocumentUrl("did:web:localhost%3A2583"),
+      "https://localhost:2583/.well-known/did.json",
+    );
+  });
+
+  await t.step("rejects path-based did:web", () => {
+    assertThrows(
+      () => getDidDocumentUrl("did:web:example.com:user:alice"),
+      UnsupportedDidMethodError,
+    );
+  });
+
+  await t.step("rejects did:web with encoded path characters", () => {
+    assertThrows(
+      () => getDidDocumentUrl("did:web:example.com%2Fevil"),
+      UnsupportedDidMethodError,
+    );
+  });
+
+  await t.step("rejects unknown DID methods", () => {
+    assertThrows(
+      () => getDidDocumentUrl("did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK"),
+      UnsupportedDidMethodError,
+    );
+  });
+});
+
+// --- resolveDidDocument ---
+
+Deno.test("resolveDidDocument", async (t) => {
+  await t.step("resolves did:web from the host's did.json", async () => {
+    const did = "did:web:alice.example.com";
+    await withFetch(
+      () => Response.json(didDocument(did)),
+      async (requested) => {
+        const result = await resolveDidDocument(did);
+        assertEquals(requested, ["https://alice.example.com/.well-known/did.json"]);
+        assertEquals(result.pdsUrl, "https://pds.example.com");
+        assertEquals(result.handle, "alice.example.com");
+      },
+    );
+  });
+
+  await t.step("rejects documents whose id does not match the DID", async () => {
+    await withFetch(
+      () => Response.json(didDocument("did:web:other.example.com")),
+      async () => {
+        await assertRejects(
+          () => resolveDidDocument("did:web:alice.example.com"),
+          PDSDiscoveryError,
+        );
+      },
+    );
+  });
+
+  await t.step("fails with a typed error for unknown methods", async () => {
+    await withFetch(
+      () => new Response(null, { status: 500 }),
+      async (requested) => {
+        await assertRejects(
+          () => resolveDidDocument("did:example:123"),
+          UnsupportedDidMethodError,
+        );
+        assertEquals(requested.length, 0);
+      },
+    );
+  });
+});
+
+// --- discoverOAuthEndpointsFromAuthServer ---
+
+Deno.test("discoverOAuthEndpointsFromAuthServer", async (t) => {
+  await t.step("returns advertised endpoints and full metadata", async () => {
+    const metadata = {
+      issuer: "https://auth.example.com",
+      authorization_endpoint: "https://auth.example.com/custom/authorize",
+      token_endpoint: "https://auth.example.com/custom/token",
+      pushed_authorization_request_endpoint: "https://auth.example.com/custom/par",
+      revocation_endpoint: "https://auth.example.com/custom/revoke",
+    };
+    await withFetch(
+      () => Response.json(metadata),
+      async (requested) => {
+        const endpoints = await discoverOAuthEndpointsFromAuthServer("https://auth.example.com");
+        assertEquals(requested, [
+          "https://auth.example.com/.well-known/oauth-authorization-server",
+        ]);
+        assertEquals(endpoints.tokenEndpoint, metadata.token_endpoint);
+        assertEquals(
+          endpoints.pushedAuthorizationRequestEndpoint,
+          metadata.pushed_authorization_request_endpoint,
+        );
+        assertEquals(endpoints.metadata.authorization_endpoint, metadata.authorization_endpoint);
+      },
+    );
+  });
+});
+
+// --- fetch option ---
+
+Deno.test("fetch option", async (t) => {
+  // Records requests; the global fetch fails so only the option can be used
+  function recordingFetch(handler: (url: string) => Response) {
+    const requested: string[] = [];
+    const fetchFn = (input: string | URL | Request) => {
+      const url = input instanceof Request ? input.url : input.toString();
+      requested.push(url);
+      return Promise.resolve(handler(url));
+    };
+    return { requested, fetchFn };
+  }
+  const failGlobal = () => {
+    throw new Error("global fetch used");
+  };
+
+  await t.step("resolveDidDocument uses the given fetch", async () => {
+    const did = "did:web:alice.example.com";
+    const { requested, fetchFn } = recordingFetch(() => Response.json(didDocument(did)));
+    await withFetch(failGlobal, async () => {
+      const result = await resolveDidDocument(did, { fetch: fetchFn });
+      assertEquals(result.pdsUrl, "https://pds.example.com");
+    });
+    assertEquals(requested, ["https://alice.example.com/.well-known/did.json"]);
+  });
+
+  await t.step("discovery uses the given fetch", async () => {
+    const { requested, fetchFn } = recordingFetch(() =>
+      Response.json({
+        issuer: "https://auth.example.com",
+        authorization_endpoint: "https://auth.example.com/oauth/authorize",
+        token_endpoint: "https://auth.example.com/oauth/token",
+      })
+    );
+    await withFetch(failGlobal, async () => {
+      await discoverOAuthEndpointsFromAuthServer("https://auth.example.com", { fetch: fetchFn });
+    });
+    assertEquals(requested.length, 1);
+  });
+
+  await t.step("resolvers use the fetch passed to their constructor", async () => {
+    const did = "did:plc:alice";
+    const { requested, fetchFn } = recordingFetch((url) =>
+      url.includes("plc.directory")
+        ? Response.json(didDocument(did))
+        : Response.json({ did, pds: "https://pds.example.com" })
+    );
+    await withFetch(failGlobal, async () => {
+      const slingshot = new SlingshotResolver({
+        url: "https://slingshot.example.com",
+        fetch: fetchFn,
+      });
+      assertEquals((await slingshot.resolve("alice.example.com")).did, did);
+
+      const directory = new DirectoryResolver({ fetch: fetchFn });
+      assertEquals(
+        (await directory.resolve("alice.example.com")).pdsUrl,
+        "https://pds.example.com",
+      );
+    });
+    assertEquals(requested.length, 3);
+  });
+
+  await t.step("SlingshotResolver accepts a service URL", async () => {
+    const did = "did:plc:alice";
+    await withFetch(
+      () => Response.json({ did, pds: "https://pds.example.com" }),
+      async (requested) => {
+        const resolver = new SlingshotResolver("https://slingshot.example.com");
+        assertEquals((await resolver.resolve("alice.example.com")).did, did);
+        assertEquals(new URL(requested[0]!).origin, "https://slingshot.example.com");
+      },
+    );
+  });
+});
+
+// --- verifyHandle ---
+
+Deno.test("verifyHandle", async (t) => {
+  const resolver = new CustomResolver((handle) => {
+    if (handle === "alice.example.com") {
+      return Promise.resolve({ did: "did:plc:alice", pdsUrl: "https://pds.example.com" });
+    }
+    return Promise.reject(new Error("not found"));
+  });
+
+  await t.step("accepts handles that resolve back to the DID", async () => {
+    assertEquals(await verifyHandle("did:plc:alice", "alice.example.com", resolver), true);
+  });
+
+  await t.step("rejects handles that resolve to a different DID", async () => {
+    assertEquals(await verifyHandle("did:plc:mallory", "alice.example.com", resolver), false);
+  });
+
+  await t.step("rejects handles that fail to resolve", async () => {
+    assertEquals(await verifyHandle("did:plc:bob", "bob.example.com", resolver), false);
+  });
+
+  await t.step("rejects missing handles", async () => {
+    assertEquals(await verifyHandle("did:plc:alice", "did:plc:alice", resolver), false);
+    assertEquals(await verifyHandle("did:plc:alice", INVALID_HANDLE, resolver), false);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Tests for the scope builder, parser and permission checks
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  formatScopePermission,
+  parseScope,
+  parseScopePermission,
+  scopeAllows,
+  ScopeBuilder,
+} from "../src/scope.ts";
+import { OAuthError } from "../src/errors.ts";
+
+Deno.test("parseScope", async (t) => {
+  await t.step("should parse each permission type", () => {
+    assertEquals(
+      parseScope(
+        "atproto transition:generic repo:app.bsky.feed.post?action=create&action=delete " +
+          "rpc:app.bsky.actor.getProfile?aud=did:web:api.bsky.app%23bsky_appview " +
+          "blob?accept=image/*&accept=video/mp4 account:email?action=manage identity:handle " +
+          "include:com.example.authBasics",
+      ),
+      [
+        { type: "atproto" },
+        { type: "transition", name: "generic" },
+        { type: "repo", collection: "app.bsky.feed.post", actions: ["create", "delete"] },
+        {
+          type: "rpc",
+          method: "app.bsky.actor.getProfile",
+          aud: "did:web:api.bsky.app#bsky_appview",
+        },
+        { type: "blob", accept: ["image/*", "video/mp4"] },
+        { type: "account", attr: "email", action: "manage" },
+        { type: "identity", attr: "handle" },
+        { type: "include", nsid: "com.example.authBasics" },
+      ],
+    );
+  });
+
+  await t.step("should accept the positional value as a named parameter", () => {
+    assertEquals(parseScopePermission("repo?collection=app.bsky.feed.like"), {
+      type: "repo",
+      collection: "app.bsky.feed.like",
+      actions: ["create", "update", "delete"],
+    });
+  });
+
+  await t.step("should keep unrecognized tokens as unknown", () => {
+    for (const token of ["custom_scope", "repo:x?action=destroy", "rpc:x", "blob:%zz"]) {
+      assertEquals(parseScopePermission(token), { type: "unknown", scope: token });
+    }
+  });
+
+  await t.step("should round-trip through formatScopePermission", () => {
+    const scope = "atproto repo:app.bsky.feed.post?action=create blob:image/* " +
+      "rpc:*?aud=* account:repo?action=manage identity:* custom_scope";
+    assertEquals(parseScope(scope).map(formatScopePermission).join(" "), scope);
+  });
+
+  await t.step("should format parameters in canonical order", () => {
+    const format = (token: string) => formatScopePermission(parseScopePermission(token));
+    assertEquals(
+      format("repo:x?action=update&action=create"),
+      format("repo:x?action=create&action=update"),
+    );
+    assertEquals(
+      format("repo:x?action=delete&action=create"),
+      "repo:x?action=create&action=delete",
+    );
+    assertEquals(
+      format("blob?accept=video/*&accept=image/*"),
+      "blob?accept=image%2F*&accept=video%2F*",
+    );
+  });
+});
+
+Deno.test("scopeAllows", async (t) => {
+  const scope = "atproto repo:app.bsky.feed.post?action=create " +
+    "rpc:app.bsky.actor.getProfile?aud=did:web:api.bsky.app%23bsky_appview " +
+    "blob:image/* account:email";
+
+  await t.step("should match repo collections and actions", () => {
+    assertEquals(scopeAllows(scope, { repo: "app.bsky.feed.post", action: "create" }), true);
+    assertEquals(scopeAllows(scope, { repo: "app.bsky.feed.post", action: "delete" }), false);
+    assertEquals(scopeAllows(scope, { repo: "app.bsky.feed.like", action: "create" }), false);
+    assertEquals(scopeAllows("atproto repo:*", { repo: "any.collection", action: "update" }), true);
+  });
+
+  await t.step("should match RPC methods and audiences", () => {
+    const aud = "did:web:api.bsky.app#bsky_appview";
+    assertEquals(scopeAllows(scope, { rpc: "app.bsky.actor.getProfile", aud }), true);
+    assertEquals(
+      scopeAllows(scope, { rpc: "app.bsky.actor.getProfile", aud: "did:web:other#svc" }),
+      false,
+    );
+    assertEquals(scopeAllows(scope, { rpc: "app.bsky.feed.getTimeline", aud }), false);
+  });
+
+  await t.step("should match blob MIME patterns", () => {
+    assertEquals(scopeAllows(scope, { blob: "image/png" }), true);
+    assertEquals(scopeAllows(scope, { blob: "video/mp4" }), false);
+  });
+
+  await t.step("should treat manage as implying read for account attributes", () => {
+    assertEquals(scopeAllows(scope, { account: "email" }), true);
+    assertEquals(scopeAllows(scope, { account: "email", action: "manage" }), false);
+    assertEquals(
+      scopeAllows("atproto account:email?action=manage", { account: "email" }),
+      true,
+    );
+  });
+
+  await t.step("should expand transitional scopes", () => {
+    const generic = "atproto transition:generic";
+    assertEquals(scopeAllows(generic, { repo: "app.bsky.feed.post", action: "delete" }), true);
+    assertEquals(scopeAllows(generic, { blob: "video/mp4" }), true);
+    assertEquals(scopeAllows(generic, { rpc: "app.bsky.feed.getTimeline", aud: "*" }), true);
+    assertEquals(scopeAllows(generic, { rpc: "chat.bsky.convo.listConvos", aud: "*" }), false);
+    assertEquals(scopeAllows(generic, { identity: "handle" }), false);
+    assertEquals(
+      scopeAllows("atproto transition:chat.bsky", { rpc: "chat.bsky.convo.listConvos", aud: "*" }),
+      true,
+    );
+    assertEquals(scopeAllows("atproto transition:email", { account: "email" }), true);
+  });
+});
+
+Deno.test("ScopeBuilder", async (t) => {
+  await t.step("should build a scope string starting with atproto", () => {
+    const scope = new ScopeBuilder()
+      .repo("app.bsky.feed.post", ["create", "delete"])
+      .repo("app.bsky.feed.like")
+      .rpc("app.bsky.actor.getProfile", "did:web:api.bsky.app#bsky_appview")
+      .blob("image/*", "video/mp4")
+      .account("email")
+      .identity("handle")
+      .build();
+
+    assertEquals(
+      scope,
+      "atproto repo:app.bsky.feed.post?action=create&action=delete repo:app.bsky.feed.like " +
+        "rpc:app.bsky.actor.getProfile?aud=did%3Aweb%3Aapi.bsky.app%23bsky_appview " +
+        "blob?accept=image%2F*&accept=video%2Fmp4 account:email identity:handle",
+    );
+    assertEquals(parseScope(scope).length, 7);
+  });
+
+  await t.step("should drop duplicate tokens", () => {
+    assertEquals(
+      new ScopeBuilder().transition("generic").transition("generic").toString(),
+      "atproto transition:generic",
+    );
+  });
+
+  await t.step("should reject empty action and MIME lists", () => {
+    assertThrows(() => new ScopeBuilder().repo("app.bsky.feed.post", []), OAuthError);
+    assertThrows(() => new ScopeBuilder().blob(), OAuthError);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tests for SessionData schema validation and migrations
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { migrateSessionData, SESSION_DATA_VERSION } from "../src/session-schema.ts";
+import { SessionDataCorruptError } from "../src/errors.ts";
+import type { SessionData } from "../src/types.ts";
+
+function createRecord(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    did: "did:plc:test123",
+    handle: "test.bsky.social",
+    pdsUrl: "https://pds.example.com",
+    accessToken: "access",
+    refreshToken: "refresh",
+    dpopPrivateKeyJWK: { kty: "EC", crv: "P-256", x: "x", y: "y", d: "d" },
+    dpopPublicKeyJWK: { kty: "EC", crv: "P-256", x: "x", y: "y" },
+    tokenExpiresAt: Date.now() + 3600_000,
+    ...overrides,
+  };
+}
+
+Deno.test("migrateSessionData - versions", async (t) => {
+  await t.step("should upgrade unversioned records", () => {
+    const { data, migrated } = migrateSessionData(createRecord());
+    assertEquals(migrated, true);
+    assertEquals(data.version, SESSION_DATA_VERSION);
+    assertEquals(data.did, "did:plc:test123");
+  });
+
+  await t.step("should pass current records through unchanged", () => {
+    const record: SessionData = {
+      version: SESSION_DATA_VERSION,
+      did: "did:plc:test123",
+      handle: "test.bsky.social",
+      pdsUrl: "https://pds.example.com",
+      accessToken: "access",
+      refreshToken: "refresh",
+      dpopPublicKeyJWK: { kty: "EC", crv: "P-256", x: "x", y: "y" },
+      dpopKeyId: "key-1",
+      tokenExpiresAt: Date.now() + 3600_000,
+      scope: "atproto",
+    };
+    const { data, migrated } = migrateSessionData(record);
+    assertEquals(migrated, false);
+    assertEquals(data, record);
+  });
+
+  await t.step("should reject records from a newer version", () => {
+    const error = assertThrows(
+      () => migrateSessionData(createRecord({ version: SESSION_DATA_VERSION + 1 }), "s1"),
+      SessionDataCorruptError,
+    );
+    assertEquals(error.sessionId, "s1");
+  });
+});
+
+Deno.test("migrateSessionData - validation", async (t) => {
+  const cases: Array<[string, unknown]> = [
+    ["not an object", "session"],
+    ["missing did", createRecord({ did: undefined })],
+    ["non-DID did", createRecord({ did: "alice" })],
+    ["invalid pdsUrl", createRecord({ pdsUrl: "not a url" })],
+    ["non-numeric expiry", createRecord({ tokenExpiresAt: "tomorrow" })],
+    ["missing public key", createRecord({ dpopPublicKeyJWK: undefined })],
+    ["no DPoP key", createRecord({ dpopPrivateKeyJWK: undefined })],
+    ["invalid optional field", createRecord({ issuer: 42 })],
+    ["invalid handle verification", createRecord({ handleVerification: "maybe" })],
+    ["invalid version", createRecord({ version: "1" })],
+  ];
+
+  for (const [name, record] of cases) {
+    await t.step(`should reject ${name}`, () => {
+      assertThrows(() => migrateSessionData(record), SessionDataCorruptError);
+    });
+  }
+
+  await t.step("should accept key references instead of private JWKs", () => {
+    const { data } = migrateSessionData(
+      createRecord({ dpopPrivateKeyJWK: undefined, dpopKeyId: "key-1" }),
+    );
+    assertEquals(data.dpopKeyId, "key-1");
+  });
+});
@@ -2,12 +2,15 @@
  * @fileoverview Tests for Session class
  */
 
-import { assertEquals } from "@std/assert";
+import { assert, assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
 import { Session, type SessionData } from "../src/session.ts";
+import { generateDPoPKeyPair } from "../src/dpop.ts";
+import { SESSION_DATA_VERSION } from "../src/session-schema.ts";
 
 // Helper to create test session data
 function createTestSessionData(overrides: Partial<SessionData> = {}): SessionData {
   return {
+    version: SESSION_DATA_VERSION,
     did: "did:plc:test123",
     handle: "test.bsky.social",
     pdsUrl: "https://test.bsky.social",
@@ -47,6 +50,47 @@ Deno.test("Session - Constructor and Basic Properties", async (t) => {
     assertEquals(session.sub, "did:plc:test123"); // same as DID
     assertEquals(session.aud, "https://test.bsky.social"); // same as pdsUrl
   });
+
+  await t.step("should check the granted scope", () => {
+    const scoped = new Session(
+      createTestSessionData({ scope: "atproto repo:app.bsky.feed.post?action=create" }),
+    );
+    assertEquals(scoped.scope, "atproto repo:app.bsky.feed.post?action=create");
+    assertEquals(scoped.hasScope("atproto"), true);
+    assertEquals(scoped.hasScope("repo?collection=app.bsky.feed.post&action=create"), true);
+    assertEquals(scoped.hasScope("transition:generic"), false);
+
+    const reordered = new Session(
+      createTestSessionData({ scope: "atproto repo:x?action=update&action=create" }),
+    );
+    assertEquals(reordered.hasScope("repo:x?action=create&action=update"), true);
+    assertEquals(scoped.can({ repo: "app.bsky.feed.post", action: "create" }), true);
+    assertEquals(scoped.can({ repo: "app.bsky.feed.post", action: "delete" }), false);
+
+    // Sessions stored before the scope was recorded grant nothing
+    assertEquals(session.scope, undefined);
+    assertEquals(session.hasScope("atproto"), false);
+    assertEquals(session.can({ blob: "image/png" }), false);
+  });
+
+  await t.step("should only have a session ID once assigned", () => {
+    const unstored = new Session(createTestSessionData());
+    assertEquals(unstored.sessionId, undefined);
+    unstored.setSessionId("user-session-123");
+    assertEquals(unstored.sessionId, "user-session-123");
+  });
+});
+
+Deno.test("Session - Handle Verification", async (t) => {
+  await t.step("should expose stored verification status", () => {
+    const session = new Session(createTestSessionData({ handleVerification: "invalid" }));
+    assertEquals(session.handleVerification, "invalid");
+  });
+
+  await t.step("should report unverified for sessions without status", () => {
+    const session = new Session(createTestSessionData());
+    assertEquals(session.handleVerification, "unverified");
+  });
 });
 
 Deno.test("Session - Expiration Logic", async (t) => {
@@ -209,3 +253,176 @@ Deno.test("Session - Edge Cases", async (t) => {
     assertEquals(session.refreshToken, "min_refresh");
   });
 });
+
+Deno.test("Session - makeRequest bodies", async (t) => {
+  const keyPair = await generateDPoPKeyPair();
+  const originalFetch = globalThis.fetch;
+
+  await t.step("should replay a stream body after a 401 refresh", async () => {
+    const bodies: string[] = [];
+    const tokens: string[] = [];
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+      const request = new Request(input, init);
+      bodies.push(await request.text());
+      tokens.push(request.headers.get("Authorization")!);
+      return new Response(null, { status: bodies.length === 1 ? 401 : 200 });
+    };
+
+    try {
+      const session = new Session(createTestSessionData({
+        pdsUrl: "https://session-bodies.example.com",
+        dpopPrivateKeyJWK: keyPair.privateKeyJWK,
+        dpopPublicKeyJWK: keyPair.publicKeyJWK,
+      }));
+      session.setRefreshCallback(() => {
+        session.updateTokens({ accessToken: "refreshed_token", expiresIn: 3600 });
+        return Promise.resolve();
+      });
+
+      const response = await session.makeRequest(
+        "POST",
+        "https://session-bodies.example.com/xrpc/com.atproto.repo.uploadBlob",
+        { body: new Blob(["image-bytes"]).stream(), headers: { "Content-Type": "image/jpeg" } },
+      );
+
+      assertEquals(response.status, 200);
+      assertEquals(bodies, ["image-bytes", "image-bytes"]);
+      assertEquals(tokens, ["DPoP test_access_token", "DPoP refreshed_token"]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+Deno.test("Session - makeRequest RequestInit passthrough", async (t) => {
+  const keyPair = await generateDPoPKeyPair();
+  const originalFetch = globalThis.fetch;
+  const createSession = () =>
+    new Session(createTestSessionData({
+      pdsUrl: "https://session-init.example.com",
+      dpopPrivateKeyJWK: keyPair.privateKeyJWK,
+      dpopPublicKeyJWK: keyPair.publicKeyJWK,
+    }));
+
+  await t.step("should pass RequestInit fields through to fetch", async () => {
+    const seen: RequestInit[] = [];
+    globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+      seen.push(init!);
+      return Promise.resolve(new Response("ok"));
+    };
+
+    try {
+      const controller = new AbortController();
+      await createSession().makeRequest(
+        "GET",
+        new URL("https://session-init.example.com/xrpc/method"),
+        { redirect: "manual", cache: "no-store", signal: controller.signal },
+      );
+
+      assertEquals(seen[0]!.redirect, "manual");
+      assertEquals(seen[0]!.cache, "no-store");
+      assertEquals(seen[0]!.signal, controller.signal);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await t.step("should send text procedure input as plain text", async () => {
+    const seen: RequestInit[] = [];
+    globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+      seen.push(init!);
+      return Promise.resolve(Response.json({}));
+    };
+
+    try {
+      await createSession().xrpc.procedure("com.example.note", "not json");
+
+      assertEquals(seen[0]!.body, "not json");
+      assertEquals(
+        new Headers(seen[0]!.headers).get("Content-Type"),
+        "text/plain;charset=UTF-8",
+      );
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await t.step("should accept a Request as input", async () => {
+    const captured: Request[] = [];
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+      captured.push(new Request(input, init));
+      return Promise.resolve(new Response("ok"));
+    };
+
+    try {
+      const request = new Request("https://session-init.example.com/xrpc/method", {
+        method: "POST",
+        body: "payload",
+        headers: { "Content-Type": "text/plain", "X-From-Request": "1" },
+      });
+      await createSession().makeRequest("POST", request, { headers: { "X-Extra": "2" } });
+
+      assertEquals(captured[0]!.url, "https://session-init.example.com/xrpc/method");
+      assertEquals(await captured[0]!.text(), "payload");
+      assertEquals(captured[0]!.headers.get("Content-Type"), "text/plain");
+      assertEquals(captured[0]!.headers.get("X-From-Request"), "1");
+      assertEquals(captured[0]!.headers.get("X-Extra"), "2");
+      assert(captured[0]!.headers.get("DPoP"));
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await t.step("should not retry after refresh when aborted", async () => {
+    let calls = 0;
+    globalThis.fetch = () => {
+      calls++;
+      return Promise.resolve(new Response(null, { status: 401 }));
+    };
+
+    try {
+      const controller = new AbortController();
+      const session = createSession();
+      session.setRefreshCallback(() => {
+        controller.abort();
+        return Promise.resolve();
+      });
+
+      const error = await assertRejects(() =>
+        session.makeRequest("GET", "https://session-init.example.com/xrpc/method", {
+          signal: controller.signal,
+        })
+      );
+      assertInstanceOf(error, DOMException);
+      assertEquals((error as DOMException).name, "AbortError");
+      assertEquals(calls, 1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await t.step("should stop waiting for a pending refresh when aborted", async () => {
+    globalThis.fetch = () => Promise.resolve(new Response(null, { status: 401 }));
+
+    try {
+      const controller = new AbortController();
+      const reason = new Error("cancelled");
+      let finishRefresh!: () => void;
+      const session = createSession();
+      session.setRefreshCallback(() => {
+        controller.abort(reason);
+        return new Promise((resolve) => finishRefresh = resolve);
+      });
+
+      const error = await assertRejects(() =>
+        session.makeRequest("GET", "https://session-init.example.com/xrpc/method", {
+          signal: controller.signal,
+        })
+      );
+      assertEquals(error, reason);
+      finishRefresh();
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { assertEquals } from "@std/assert";
-import { LocalStorage, MemoryStorage } from "../src/storage.ts";
+import { DenoKvStorage, LocalStorage, MemoryStorage, NamespacedStorage } from "../src/storage.ts";
 
 // Mock localStorage for testing
 class MockLocalStorage {
@@ -24,6 +24,14 @@ class MockLocalStorage {
   clear(): void {
     this.store.clear();
   }
+
+  get length(): number {
+    return this.store.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.store.keys()][index] ?? null;
+  }
 }
 
 // Setup mock for LocalStorage tests
@@ -187,3 +195,152 @@ Deno.test("LocalStorage - Error Handling", async (t) => {
     assertEquals(result, null);
   });
 });
+
+Deno.test("MemoryStorage - Atomic Operations", async (t) => {
+  const storage = new MemoryStorage();
+
+  await t.step("getAndDelete should hand a value to exactly one caller", async () => {
+    await storage.set("pkce:state", { codeVerifier: "v" });
+    const results = await Promise.all([
+      storage.getAndDelete("pkce:state"),
+      storage.getAndDelete("pkce:state"),
+    ]);
+    assertEquals(results.filter((r) => r !== null), [{ codeVerifier: "v" }]);
+  });
+
+  await t.step("compareAndSet should only let one concurrent writer win", async () => {
+    await storage.set("counter", 1);
+    const results = await Promise.all([
+      storage.compareAndSet("counter", 1, 2),
+      storage.compareAndSet("counter", 1, 3),
+    ]);
+    assertEquals(results, [true, false]);
+    assertEquals(await storage.get("counter"), 2);
+  });
+});
+
+Deno.test("Storage - list", async (t) => {
+  await t.step("MemoryStorage should list live keys with a prefix", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("session:a", 1);
+    await storage.set("session:b", 2);
+    await storage.set("session:expired", 3, { ttl: 0.01 });
+    await storage.set("pkce:c", 4);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assertEquals(await storage.list("session:"), ["session:a", "session:b"]);
+  });
+
+  await t.step("LocalStorage should list keys with a prefix", async () => {
+    mockLocalStorage.clear();
+    const storage = new LocalStorage();
+    await storage.set("session:a", 1);
+    await storage.set("pkce:b", 2);
+
+    assertEquals(await storage.list("session:"), ["session:a"]);
+  });
+
+  await t.step("NamespacedStorage should list keys within its namespace", async () => {
+    const backend = new MemoryStorage();
+    await backend.set("app-b:session:x", 1);
+    const storage = new NamespacedStorage(backend, "app-a");
+    await storage.set("session:a", 1);
+
+    assertEquals(await storage.list?.("session:"), ["session:a"]);
+  });
+});
+
+Deno.test("DenoKvStorage", async (t) => {
+  const kv = await Deno.openKv(":memory:");
+  const storage = new DenoKvStorage(kv, { prefix: ["test", "oauth"] });
+
+  try {
+    await t.step("should store, retrieve and delete values", async () => {
+      await storage.set("session:1", { did: "did:plc:test123" });
+      assertEquals(await storage.get("session:1"), { did: "did:plc:test123" });
+
+      await storage.delete("session:1");
+      assertEquals(await storage.get("session:1"), null);
+    });
+
+    await t.step("should store values under the key prefix", async () => {
+      await storage.set("prefixed", "value");
+      const entry = await kv.get(["test", "oauth", "prefixed"]);
+      assertEquals((entry.value as { value: unknown }).value, "value");
+    });
+
+    await t.step("should expire values after TTL", async () => {
+      await storage.set("expire-key", "expire-value", { ttl: 0.1 });
+      assertEquals(await storage.get("expire-key"), "expire-value");
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      assertEquals(await storage.get("expire-key"), null);
+    });
+
+    await t.step("getAndDelete should hand a value to exactly one caller", async () => {
+      await storage.set("pkce:state", { codeVerifier: "v" });
+      const results = await Promise.all([
+        storage.getAndDelete("pkce:state"),
+        storage.getAndDelete("pkce:state"),
+      ]);
+      assertEquals(results.filter((r) => r !== null), [{ codeVerifier: "v" }]);
+      assertEquals(await kv.get(["test", "oauth", "pkce:state"]).then((e) => e.value), null);
+    });
+
+    await t.step("compareAndSet should set absent keys when expecting null", async () => {
+      assertEquals(await storage.compareAndSet("lock", null, "owner-a"), true);
+      assertEquals(await storage.compareAndSet("lock", null, "owner-b"), false);
+      assertEquals(await storage.get("lock"), "owner-a");
+    });
+
+    await t.step("compareAndSet should only let one concurrent writer win", async () => {
+      await storage.set("tokens", { version: 1 });
+      const results = await Promise.all([
+        storage.compareAndSet("tokens", { version: 1 }, { version: 2 }),
+        storage.compareAndSet("tokens", { version: 1 }, { version: 3 }),
+      ]);
+      assertEquals(results.filter(Boolean).length, 1);
+    });
+    await t.step("should list live keys with a prefix", async () => {
+      await storage.set("session:a", 1);
+      await storage.set("session:b", 2);
+      await storage.set("session:expired", 3, { ttl: 0.01 });
+      await storage.set("sessions", 4);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      assertEquals(await storage.list("session:"), ["session:a", "session:b"]);
+    });
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("NamespacedStorage", async (t) => {
+  await t.step("should prefix keys with the namespace", async () => {
+    const backend = new MemoryStorage();
+    const storage = new NamespacedStorage(backend, "app-a");
+
+    await storage.set("session:1", "value");
+    assertEquals(await backend.get("app-a:session:1"), "value");
+    assertEquals(await storage.get("session:1"), "value");
+    assertEquals(await new NamespacedStorage(backend, "app-b").get("session:1"), null);
+
+    await storage.delete("session:1");
+    assertEquals(await backend.get("app-a:session:1"), null);
+  });
+
+  await t.step("should forward atomic operations only when supported", async () => {
+    const storage = new NamespacedStorage(new MemoryStorage(), "app-a");
+    await storage.set("pkce:state", "verifier");
+    assertEquals(await storage.getAndDelete?.("pkce:state"), "verifier");
+    assertEquals(await storage.compareAndSet?.("lock", null, "owner"), true);
+
+    const plain = new NamespacedStorage({
+      get: () => Promise.resolve(null),
+      set: () => Promise.resolve(),
+      delete: () => Promise.resolve(),
+    }, "app-a");
+    assertEquals(plain.getAndDelete, undefined);
+    assertEquals(plain.compareAndSet, undefined);
+  });
+});
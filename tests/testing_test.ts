@@ -0,0 +1,254 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { OAuthClient } from "../src/client.ts";
+import { AuthorizationError, RefreshTokenExpiredError } from "../src/errors.ts";
+import { Session } from "../src/session.ts";
+import { MemoryStorage } from "../src/storage.ts";
+import { MockAtprotoServer } from "../src/testing.ts";
+
+function setup(options: { accessTokenTtl?: number } = {}) {
+  const server = new MockAtprotoServer(options);
+  const alice = server.createAccount({ handle: "alice.test" });
+  const storage = new MemoryStorage();
+  const client = new OAuthClient({
+    clientId: "https://app.test/client-metadata.json",
+    redirectUri: "https://app.test/oauth/callback",
+    storage,
+    handleResolver: server.handleResolver,
+  });
+  return { server, alice, storage, client };
+}
+
+// Run `fn` with the mock server installed as globalThis.fetch
+async function withServer(server: MockAtprotoServer, fn: () => Promise<void>): Promise<void> {
+  const uninstall = server.install();
+  try {
+    await fn();
+  } finally {
+    uninstall();
+  }
+}
+
+async function signIn(client: OAuthClient, server: MockAtprotoServer): Promise<Session> {
+  const authUrl = await client.authorize("alice.test");
+  const { session } = await client.callback(await server.approve(authUrl));
+  await client.store("s1", session as Session);
+  return session as Session;
+}
+
+Deno.test("MockAtprotoServer - OAuth flow", async (t) => {
+  await t.step("should sign in and call the PDS", async () => {
+    const { server, alice, client } = setup();
+
+    await withServer(server, async () => {
+      const authUrl = await client.authorize("alice.test");
+      assertEquals(authUrl.origin, server.issuer);
+
+      const params = await server.approve(authUrl);
+      assertEquals(params.get("iss"), server.issuer);
+
+      const { session } = await client.callback(params);
+      assertEquals(session.did, alice.did);
+      assertEquals(session.handle, "alice.test");
+      assertEquals(session.pdsUrl, server.pdsUrl);
+
+      const me = await (session as Session).xrpc.query<{ did: string; handle: string }>(
+        "com.atproto.server.getSession",
+      );
+      assertEquals(me.did, alice.did);
+      assertEquals(me.handle, "alice.test");
+    });
+  });
+
+  await t.step("should follow the authorize endpoint redirect", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const authUrl = await client.authorize("alice.test");
+      const response = await server.fetch(authUrl);
+      assertEquals(response.status, 302);
+
+      const callbackUrl = new URL(response.headers.get("Location")!);
+      assertEquals(callbackUrl.origin, "https://app.test");
+      const { session } = await client.callback(callbackUrl.searchParams);
+      assertEquals(session.handle, "alice.test");
+    });
+  });
+
+  await t.step("should surface a denied request as AuthorizationError", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const authUrl = await client.authorize("alice.test");
+      const params = await server.approve(authUrl, { deny: true });
+      const error = await assertRejects(() => client.callback(params), AuthorizationError);
+      assert(error.message.includes("access_denied"));
+    });
+  });
+
+  await t.step("should answer DPoP nonce challenges", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      server.rotateNonce();
+
+      const response = await session.makeRequest(
+        "GET",
+        `${server.pdsUrl}/xrpc/com.atproto.server.getSession`,
+      );
+      assertEquals(response.status, 200);
+    });
+  });
+});
+
+Deno.test("MockAtprotoServer - tokens", async (t) => {
+  await t.step("should rotate refresh tokens and reject reuse", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      const stale = Session.fromJSON(session.toJSON());
+      const original = session.refreshToken;
+
+      await client.refresh(session);
+      assert(session.refreshToken !== original);
+      assertEquals(server.isTokenActive(original), false);
+      assertEquals(server.isTokenActive(session.refreshToken), true);
+
+      await assertRejects(() => client.refresh(stale), RefreshTokenExpiredError);
+    });
+  });
+
+  await t.step("should refresh on restore when the access token is short-lived", async () => {
+    const { server, client } = setup({ accessTokenTtl: 60 });
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      const restored = await client.restore("s1");
+      assert(restored.accessToken !== session.accessToken);
+      assertEquals(server.isTokenActive(session.accessToken), false);
+    });
+  });
+
+  await t.step("should refresh and retry after a 401 from the PDS", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      const expired = session.accessToken;
+      server.expireAccessTokens();
+
+      const me = await session.xrpc.query<{ handle: string }>("com.atproto.server.getSession");
+      assertEquals(me.handle, "alice.test");
+      assert(session.accessToken !== expired);
+    });
+  });
+
+  await t.step("should revoke the refresh token on sign-out", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      const { refreshToken } = session;
+      await client.signOut("s1", session);
+      assertEquals(server.isTokenActive(refreshToken), false);
+    });
+  });
+});
+
+Deno.test("MockAtprotoServer - PDS", async (t) => {
+  await t.step("should require DPoP-bound access tokens", async () => {
+    const { server, client } = setup();
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      const response = await server.fetch(
+        `${server.pdsUrl}/xrpc/com.atproto.server.getSession`,
+        { headers: { Authorization: `Bearer ${session.accessToken}` } },
+      );
+      assertEquals(response.status, 401);
+      assertEquals((await response.json()).error, "AuthenticationRequired");
+    });
+  });
+
+  await t.step("should serve custom XRPC methods", async () => {
+    const { server, client } = setup();
+    server.setXrpcHandler(
+      "app.bsky.actor.getProfile",
+      (request, { account }) =>
+        Response.json({
+          did: account.did,
+          actor: new URL(request.url).searchParams.get("actor"),
+        }),
+    );
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      const profile = await session.xrpc.query<{ actor: string }>(
+        "app.bsky.actor.getProfile",
+        { actor: "alice.test" },
+      );
+      assertEquals(profile.actor, "alice.test");
+    });
+  });
+
+  await t.step("should reflect handle changes in the DID document", async () => {
+    const { server, alice, client } = setup();
+
+    await withServer(server, async () => {
+      const session = await signIn(client, server);
+      server.updateHandle(alice.did, "alice.renamed.test");
+
+      const change = await session.refreshIdentity();
+      assertEquals(change?.current.handle, "alice.renamed.test");
+      assertEquals(session.handle, "alice.renamed.test");
+    });
+  });
+
+  await t.step("should refuse origins it does not serve", async () => {
+    const server = new MockAtprotoServer();
+    await assertRejects(() => server.fetch("https://example.com/"), TypeError);
+  });
+});
+
+Deno.test("MockAtprotoServer - fetch option", async (t) => {
+  await t.step("should serve a client through its fetch option", async () => {
+    const server = new MockAtprotoServer();
+    const alice = server.createAccount({ handle: "alice.test" });
+    const client = new OAuthClient({
+      clientId: "https://app.test/client-metadata.json",
+      redirectUri: "https://app.test/oauth/callback",
+      storage: new MemoryStorage(),
+      handleResolver: server.handleResolver,
+      fetch: server.fetch,
+    });
+
+    // Nothing may reach the global fetch
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = () => Promise.reject(new Error("global fetch used"));
+    try {
+      const session = await signIn(client, server);
+      const me = await session.xrpc.query<{ did: string }>("com.atproto.server.getSession");
+      assertEquals(me.did, alice.did);
+
+      await client.refresh(session);
+      const { refreshToken } = session;
+      await client.signOut("s1", session);
+      assertEquals(server.isTokenActive(refreshToken), false);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  await t.step("should install itself as the global fetch", async () => {
+    const server = new MockAtprotoServer();
+    const uninstall = server.install();
+    try {
+      const response = await fetch(`${server.pdsUrl}/.well-known/oauth-protected-resource`);
+      assertEquals((await response.json()).authorization_servers, [server.issuer]);
+    } finally {
+      uninstall();
+    }
+    assert(globalThis.fetch !== server.fetch);
+  });
+});
@@ -0,0 +1,99 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { TimeoutError } from "../src/errors.ts";
+import { abortable, fetchWithSignal, withTimeout } from "../src/timeout.ts";
+
+const never = () => new Promise<never>(() => {});
+
+Deno.test("withTimeout", async (t) => {
+  await t.step("should resolve with the phase result", async () => {
+    const result = await withTimeout("discovery", 1000, undefined, () => Promise.resolve(42));
+    assertEquals(result, 42);
+  });
+
+  await t.step("should reject with a TimeoutError naming the phase", async () => {
+    let phaseSignal: AbortSignal | undefined;
+    const error = await assertRejects(
+      () =>
+        withTimeout("par", 10, undefined, (signal) => {
+          phaseSignal = signal;
+          return never();
+        }),
+      TimeoutError,
+    );
+    assertEquals(error.phase, "par");
+    assertEquals(error.timeoutMs, 10);
+    assert(error.message.includes("pushed authorization request"));
+    assertEquals(phaseSignal?.reason, error);
+  });
+
+  await t.step("should reject with the caller's abort reason", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const pending = withTimeout("refresh", 1000, controller.signal, never);
+    controller.abort(reason);
+    assertEquals(await assertRejects(() => pending), reason);
+  });
+
+  await t.step("should not start when the signal is already aborted", async () => {
+    let started = false;
+    await assertRejects(() =>
+      withTimeout("refresh", 1000, AbortSignal.abort(), () => {
+        started = true;
+        return Promise.resolve();
+      })
+    );
+    assertEquals(started, false);
+  });
+
+  await t.step("should wait indefinitely with a timeout of 0", async () => {
+    const result = await withTimeout(
+      "revocation",
+      0,
+      undefined,
+      (signal) => new Promise((resolve) => setTimeout(() => resolve(signal.aborted), 20)),
+    );
+    assertEquals(result, false);
+  });
+});
+
+Deno.test("abortable", async (t) => {
+  await t.step("should settle like the promise without a signal", async () => {
+    assertEquals(await abortable(Promise.resolve("ok")), "ok");
+  });
+
+  await t.step("should stop waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = abortable(never(), controller.signal);
+    controller.abort(new Error("stop"));
+    const error = await assertRejects(() => pending, Error);
+    assertEquals(error.message, "stop");
+  });
+});
+
+Deno.test("fetchWithSignal", async (t) => {
+  await t.step("should pass the bound signal to each request", async () => {
+    const controller = new AbortController();
+    const signals: Array<AbortSignal | null | undefined> = [];
+    const fetchFn = fetchWithSignal((_input, init) => {
+      signals.push(init?.signal);
+      return Promise.resolve(new Response());
+    }, controller.signal);
+
+    await fetchFn("https://example.com/");
+    controller.abort();
+    assertEquals(signals[0]?.aborted, true);
+  });
+
+  await t.step("should keep a signal set on the request", async () => {
+    const requestController = new AbortController();
+    let signal: AbortSignal | null | undefined;
+    const fetchFn = fetchWithSignal((_input, init) => {
+      signal = init?.signal;
+      return Promise.resolve(new Response());
+    }, new AbortController().signal);
+
+    await fetchFn("https://example.com/", { signal: requestController.signal });
+    requestController.abort();
+    assertEquals(signal?.aborted, true);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Tests for XRPC query and procedure helpers
+ */
+
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { buildXrpcUrl, XrpcClient, type XrpcTransport } from "../src/xrpc.ts";
+import { XRPCError } from "../src/errors.ts";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  options?: RequestInit;
+}
+
+function createTransport(
+  respond: () => Response,
+): { transport: XrpcTransport; requests: RecordedRequest[] } {
+  const requests: RecordedRequest[] = [];
+  const transport: XrpcTransport = {
+    pdsUrl: "https://pds.example.com",
+    makeRequest: (method, url, options) => {
+      requests.push({ method, url, ...(options ? { options } : {}) });
+      return Promise.resolve(respond());
+    },
+  };
+  return { transport, requests };
+}
+
+Deno.test("buildXrpcUrl", async (t) => {
+  await t.step("should resolve the NSID relative to the service URL", () => {
+    assertEquals(
+      buildXrpcUrl("https://pds.example.com", "com.atproto.server.describeServer"),
+      "https://pds.example.com/xrpc/com.atproto.server.describeServer",
+    );
+  });
+
+  await t.step("should encode arrays as repeated parameters and skip undefined", () => {
+    const url = new URL(
+      buildXrpcUrl("https://pds.example.com", "app.bsky.actor.getProfiles", {
+        actors: ["alice.example.com", "bob.example.com"],
+        limit: 10,
+        reverse: false,
+        cursor: undefined,
+      }),
+    );
+    assertEquals(url.searchParams.getAll("actors"), ["alice.example.com", "bob.example.com"]);
+    assertEquals(url.searchParams.get("limit"), "10");
+    assertEquals(url.searchParams.get("reverse"), "false");
+    assertEquals(url.searchParams.has("cursor"), false);
+  });
+});
+
+Deno.test("XrpcClient - query", async (t) => {
+  await t.step("should GET the PDS and parse the JSON response", async () => {
+    const { transport, requests } = createTransport(() => Response.json({ records: [] }));
+    const xrpc = new XrpcClient(transport);
+
+    const result = await xrpc.query<{ records: unknown[] }>("com.atproto.repo.listRecords", {
+      repo: "did:plc:test123",
+    });
+
+    assertEquals(result, { records: [] });
+    assertEquals(requests[0]!.method, "GET");
+    assertEquals(
+      requests[0]!.url,
+      "https://pds.example.com/xrpc/com.atproto.repo.listRecords?repo=did%3Aplc%3Atest123",
+    );
+    assertEquals(requests[0]!.options?.body, undefined);
+    assertEquals(
+      new Headers(requests[0]!.options?.headers).get("Accept"),
+      "application/json",
+    );
+  });
+
+  await t.step("should return bytes for non-JSON responses", async () => {
+    const { transport } = createTransport(() =>
+      new Response(new Uint8Array([1, 2, 3]), {
+        headers: { "Content-Type": "application/octet-stream" },
+      })
+    );
+    const result = await new XrpcClient(transport).query("com.atproto.sync.getBlob");
+    assertEquals(result, new Uint8Array([1, 2, 3]));
+  });
+});
+
+Deno.test("XrpcClient - procedure", async (t) => {
+  await t.step("should POST JSON input with a JSON content type", async () => {
+    const { transport, requests } = createTransport(() =>
+      Response.json({ uri: "at://did:plc:test123/app.bsky.feed.post/1" })
+    );
+    const input = { repo: "did:plc:test123", collection: "app.bsky.feed.post" };
+
+    const result = await new XrpcClient(transport).procedure(
+      "com.atproto.repo.createRecord",
+      input,
+    );
+
+    assertEquals(result, { uri: "at://did:plc:test123/app.bsky.feed.post/1" });
+    assertEquals(requests[0]!.method, "POST");
+    assertEquals(requests[0]!.url, "https://pds.example.com/xrpc/com.atproto.repo.createRecord");
+    assertEquals(requests[0]!.options?.body, JSON.stringify(input));
+    assertEquals(
+      new Headers(requests[0]!.options?.headers).get("Content-Type"),
+      "application/json",
+    );
+  });
+
+  await t.step("should send binary input as-is with the given encoding", async () => {
+    const { transport, requests } = createTransport(() => Response.json({ blob: {} }));
+    const bytes = new Uint8Array([0xff, 0xd8, 0xff]);
+
+    await new XrpcClient(transport).procedure("com.atproto.repo.uploadBlob", bytes, {
+      encoding: "image/jpeg",
+    });
+
+    assertEquals(requests[0]!.options?.body, bytes);
+    assertEquals(new Headers(requests[0]!.options?.headers).get("Content-Type"), "image/jpeg");
+  });
+
+  await t.step("should default binary encoding to the Blob type", async () => {
+    const { transport, requests } = createTransport(() => Response.json({ blob: {} }));
+
+    await new XrpcClient(transport).procedure(
+      "com.atproto.repo.uploadBlob",
+      new Blob(["data"], { type: "video/mp4" }),
+    );
+
+    assertEquals(new Headers(requests[0]!.options?.headers).get("Content-Type"), "video/mp4");
+  });
+
+  await t.step("should send form data as-is and leave the content type to fetch", async () => {
+    const { transport, requests } = createTransport(() => Response.json({}));
+    const form = new FormData();
+    form.set("file", new Blob(["data"]), "data.txt");
+    const params = new URLSearchParams({ a: "1" });
+
+    await new XrpcClient(transport).procedure("com.example.upload", form);
+    await new XrpcClient(transport).procedure("com.example.submit", params);
+
+    assertEquals(requests[0]!.options?.body, form);
+    assertEquals(new Headers(requests[0]!.options?.headers).get("Content-Type"), null);
+    assertEquals(requests[1]!.options?.body, params);
+    assertEquals(new Headers(requests[1]!.options?.headers).get("Content-Type"), null);
+  });
+
+  await t.step("should send text input as-is with the given encoding", async () => {
+    const { transport, requests } = createTransport(() => Response.json({}));
+
+    await new XrpcClient(transport).procedure("com.example.import", "a,b\n1,2", {
+      encoding: "text/csv",
+    });
+
+    assertEquals(requests[0]!.options?.body, "a,b\n1,2");
+    assertEquals(new Headers(requests[0]!.options?.headers).get("Content-Type"), "text/csv");
+  });
+
+  await t.step("should label text input without an encoding as plain text", async () => {
+    const { transport, requests } = createTransport(() => Response.json({}));
+
+    await new XrpcClient(transport).procedure("com.example.note", "not json");
+
+    assertEquals(requests[0]!.options?.body, "not json");
+    assertEquals(
+      new Headers(requests[0]!.options?.headers).get("Content-Type"),
+      "text/plain;charset=UTF-8",
+    );
+  });
+
+  await t.step("should send no body and resolve undefined for empty responses", async () => {
+    const { transport, requests } = createTransport(() => new Response(null, { status: 200 }));
+
+    const result = await new XrpcClient(transport).procedure("com.atproto.server.deleteSession");
+
+    assertEquals(result, undefined);
+    assertEquals(requests[0]!.options?.body, undefined);
+    assertEquals(new Headers(requests[0]!.options?.headers).get("Content-Type"), null);
+  });
+});
+
+Deno.test("XrpcClient - errors", async (t) => {
+  await t.step("should parse lexicon error and message", async () => {
+    const { transport } = createTransport(() =>
+      Response.json({ error: "RecordNotFound", message: "Could not locate record" }, {
+        status: 400,
+      })
+    );
+
+    const error = await assertRejects(
+      () => new XrpcClient(transport).query("com.atproto.repo.getRecord"),
+      XRPCError,
+    );
+    assertEquals(error.nsid, "com.atproto.repo.getRecord");
+    assertEquals(error.status, 400);
+    assertEquals(error.error, "RecordNotFound");
+    assertEquals(error.errorMessage, "Could not locate record");
+  });
+
+  await t.step("should fall back to the status text for non-JSON errors", async () => {
+    const { transport } = createTransport(() =>
+      new Response("upstream failure", { status: 502, statusText: "Bad Gateway" })
+    );
+
+    const error = await assertRejects(
+      () => new XrpcClient(transport).procedure("com.atproto.repo.createRecord", {}),
+      XRPCError,
+    );
+    assertInstanceOf(error, XRPCError);
+    assertEquals(error.status, 502);
+    assertEquals(error.error, "Bad Gateway");
+    assertEquals(error.errorMessage, undefined);
+  });
+});